@@ -1,70 +1,453 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment } from '@react-three/drei';
 import { ControlPanel } from './components/ControlPanel';
 import { GeometryPreview } from './components/GeometryPreview';
-import { generateGyroidMesh } from './utils/marchingCubes';
-import { exportToSTL } from './utils/stl';
-import { GenParams, MeshData } from './types';
+import { IntegrityPanel } from './components/IntegrityPanel';
+import { MetricsPanel } from './components/MetricsPanel';
+import { DecimatePanel } from './components/DecimatePanel';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { SectionPanel } from './components/SectionPanel';
+import { ThicknessPanel } from './components/ThicknessPanel';
+import { OverhangPanel } from './components/OverhangPanel';
+import { ToolpathPanel } from './components/ToolpathPanel';
+import {
+  analyzeInWorker, decimateInWorker, generateFluidDomainsInWorker, generateMeshInWorker, measureThicknessInWorker,
+  sliceInWorker, streamSTLInWorker,
+} from './utils/meshWorkerClient';
+import { EXPORT_FORMATS, GROUPED_FORMATS, exportBasename, fluidBasename, serializeMesh } from './utils/exporters';
+import { downloadBlob, downloadFile, openDownloadSink } from './utils/download';
+import { writeSTLStream } from './utils/stlStream';
+import { MeshReport } from './utils/meshIntegrity';
+import { DecimateOptions, DecimationResult } from './utils/decimate';
+import { resolveBox } from './utils/box';
+import { DEFAULT_PARAMS } from './utils/defaults';
+import { headerReach } from './utils/headers';
+import { decodeParamsHash, encodeParamsHash } from './utils/shareUrl';
+import { historyReducer, initialHistory } from './utils/paramHistory';
+import { SNAPSHOT_BUDGET, Snapshot, addSnapshot, meshBytes } from './utils/snapshots';
+import { renderThumbnail } from './utils/thumbnail';
+import { DEFAULT_SECTIONS, SectionPlane, SectionPlanes, describeSections, sectionTag } from './utils/sections';
+import { annotateScreenshot } from './utils/screenshot';
+import { findThinWalls, thicknessColors } from './utils/wallThickness';
+import { PrinterProfile, loadActiveProfile, saveActiveProfile } from './utils/printerProfiles';
+import { SliceOptions, Toolpath, layerCount } from './utils/slicer';
+import {
+  DEFAULT_GCODE, GcodeSettings, gcodeForProfile, loadGcodeSettings, saveGcodeSettings, toolpathStats, writeGcode,
+} from './utils/gcode';
+import {
+  DEFAULT_OVERHANG, OverhangReport, OverhangSettings, analyzeOverhangs, bestAxisOrientation, faceOverhangAngles,
+  overhangColors, resolveUp,
+} from './utils/overhang';
+import { Axis, Channel, ExportFormat, GenParams, MeshData, PortFace } from './types';
 import * as THREE from 'three';
+import { Camera, Link, Redo2, TriangleAlert, Undo2, X } from 'lucide-react';
+
+const AXES: Axis[] = ['x', 'y', 'z'];
 
 const App: React.FC = () => {
-  const [params, setParams] = useState<GenParams>({
-    size: 100,               // mm — cube edge length
-    cellSize: 25,            // mm — target cell size (auto-snaps to integer count)
-                             //   100 / 25 = 4 cells → estWall ≈ 3.2mm, span ≈ 22mm
-    wallThickness: 0.35,     // gyroid isovalue threshold (unitless)
-    // Structural boundary
-    useFrame: false,         // false = shell, true = edge-beam frame
-    shellThickness: 3.0,     // mm — hollow outer box wall thickness (shell mode)
-    frameBeamWidth: 10,      // mm — square beam cross-section (frame mode)
-    // Quality / export
-    resolution: 60,          // voxels per axis (60³ ≈ 216k voxels)
-    smoothingIterations: 8,  // Taubin smoothing passes
-    makeManifold: false,     // (shell mode) seal port openings → watertight STL
-  });
+  // A shared link restores its parameters; whatever had to be fixed in it
+  // is listed until dismissed
+  const [sharedLink] = useState(() => decodeParamsHash(window.location.hash));
+  // Parameters with undo/redo; slider drags coalesce into one step per control
+  const [paramHistory, dispatchHistory] = useReducer(
+    historyReducer<GenParams>, sharedLink?.params ?? DEFAULT_PARAMS, initialHistory);
+  const params = paramHistory.present;
+  const editParams = useCallback((update: (prev: GenParams) => GenParams, group?: string) =>
+    dispatchHistory({ type: 'edit', update, group, time: Date.now() }), []);
+  const [linkIssues, setLinkIssues] = useState<string[]>(sharedLink?.issues ?? []);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const [meshData, setMeshData] = useState<MeshData | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [vertexCount, setVertexCount] = useState(0);
-  const [faceCount, setFaceCount] = useState(0);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('stl');
+  const [showProblemEdges, setShowProblemEdges] = useState(false);
+  // Fluid-domain export progress (null when idle)
+  const [fluidProgress, setFluidProgress] = useState<number | null>(null);
+  // Streamed STL export progress (null when idle)
+  const [streamProgress, setStreamProgress] = useState<number | null>(null);
+  const exporting = fluidProgress !== null || streamProgress !== null;
+
+  // Decimation of a generated mesh; it only applies while that mesh is current
+  const [decimated, setDecimated] = useState<{ source: MeshData; result: DecimationResult } | null>(null);
+  const [decimateProgress, setDecimateProgress] = useState<number | null>(null);
+
+  // Recent results, newest first (see utils/snapshots)
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const snapshotId = useRef(0);
+  const decimation = decimated && decimated.source === meshData ? decimated.result : null;
+
+  // Viewport section planes; the last one touched carries the drag gizmo
+  const [sections, setSections] = useState<SectionPlanes>(DEFAULT_SECTIONS);
+  const [activeSection, setActiveSection] = useState<Axis | null>(null);
+  // Renders the viewport to a PNG data URL (set by GeometryPreview)
+  const captureRef = useRef<(() => string) | null>(null);
+
+  // What the viewport, integrity report and exports see
+  const shownMesh = decimation?.mesh ?? meshData;
+  const vertexCount = shownMesh ? shownMesh.vertices.length / 3 : 0;
+  const faceCount = shownMesh ? shownMesh.indices.length / 3 : 0;
+
+  // Integrity report, checked in a worker; it only applies while the checked mesh is shown
+  const [integrity, setIntegrity] = useState<{ source: MeshData; report: MeshReport } | null>(null);
+  const report = integrity && integrity.source === shownMesh ? integrity.report : null;
+  useEffect(() => {
+    if (!shownMesh) return;
+    const controller = new AbortController();
+    analyzeInWorker(shownMesh, controller.signal)
+      .then((result) => setIntegrity({ source: shownMesh, report: result }))
+      .catch((e) => {
+        if (!controller.signal.aborted) console.error('Mesh integrity check failed', e);
+      });
+    return () => controller.abort();
+  }, [shownMesh]);
+
+  // Printer the analyses are judged against; its limits seed the minimum
+  // wall and critical angle below
+  const [profile, setProfile] = useState<PrinterProfile>(loadActiveProfile);
+
+  // Analysis colouring the viewport mesh (one at a time)
+  const [overlay, setOverlay] = useState<'none' | 'thickness' | 'overhang'>('none');
+
+  // Measured wall thickness; it only applies while the measured mesh is shown
+  const [thickness, setThickness] = useState<{ source: MeshData; values: Float32Array } | null>(null);
+  const [thicknessProgress, setThicknessProgress] = useState<number | null>(null);
+  const [minWall, setMinWall] = useState(profile.minWall);
+  const wallThickness = thickness && thickness.source === shownMesh ? thickness.values : null;
+  const thinWalls = useMemo(
+    () => (shownMesh && wallThickness ? findThinWalls(shownMesh, wallThickness, minWall) : null),
+    [shownMesh, wallThickness, minWall]);
+
+  // Overhangs for the chosen build direction, computed while the overlay is on
+  const [overhang, setOverhang] = useState<OverhangSettings>(
+    () => ({ ...DEFAULT_OVERHANG, criticalAngle: profile.criticalAngle }));
+  const buildUp = useMemo(
+    () => resolveUp(overhang),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [overhang.direction, overhang.custom]);
+  const overhangAngles = useMemo(
+    () => (overlay === 'overhang' && shownMesh ? faceOverhangAngles(shownMesh, buildUp) : null),
+    [overlay, shownMesh, buildUp]);
+  const overhangReport = useMemo(
+    () => (shownMesh && overhangAngles ? analyzeOverhangs(shownMesh, buildUp, overhang.criticalAngle, overhangAngles) : null),
+    [shownMesh, overhangAngles, buildUp, overhang.criticalAngle]);
+  // Axis-direction comparison, on request; valid for its mesh and angle only
+  const [orientationRun, setOrientationRun] = useState<{
+    source: MeshData; criticalAngle: number; best: PortFace; reports: Record<PortFace, OverhangReport>;
+  } | null>(null);
+  const orientations = orientationRun && orientationRun.source === shownMesh
+    && orientationRun.criticalAngle === overhang.criticalAngle ? orientationRun : null;
+
+  // Sliced toolpath; it only applies while the parameters and slice options
+  // it was made with are current
+  const [gcode, setGcode] = useState<GcodeSettings>(() => loadGcodeSettings(gcodeForProfile(DEFAULT_GCODE, profile)));
+  const [sliced, setSliced] = useState<{ params: GenParams; options: SliceOptions; toolpath: Toolpath } | null>(null);
+  const [sliceFailure, setSliceFailure] = useState<{ params: GenParams; options: SliceOptions; message: string } | null>(null);
+  const [sliceProgress, setSliceProgress] = useState<number | null>(null);
+  const [showToolpath, setShowToolpath] = useState(false);
+  const [toolpathLayer, setToolpathLayer] = useState(0);
+  const slicedNow = (run: { params: GenParams; options: SliceOptions }) =>
+    run.params === params && run.options.layerHeight === gcode.layerHeight
+    && run.options.lineWidth === gcode.lineWidth && run.options.perimeters === gcode.perimeters;
+  const toolpath = sliced && slicedNow(sliced) ? sliced.toolpath : null;
+  const sliceError = sliceFailure && slicedNow(sliceFailure) ? sliceFailure.message : null;
+  const toolpathReport = useMemo(() => (toolpath ? toolpathStats(toolpath, gcode) : null), [toolpath, gcode]);
+
+  const meshColors = useMemo(() => {
+    if (!shownMesh) return undefined;
+    if (overlay === 'thickness' && wallThickness) return thicknessColors(wallThickness, minWall);
+    if (overlay === 'overhang' && overhangAngles) return overhangColors(shownMesh, overhangAngles, overhang.criticalAngle);
+    return undefined;
+  }, [shownMesh, overlay, wallThickness, minWall, overhangAngles, overhang.criticalAngle]);
 
   const handleParamChange = (newParams: Partial<GenParams>) => {
-    setParams(prev => ({ ...prev, ...newParams }));
+    editParams(prev => ({ ...prev, ...newParams }), Object.keys(newParams).sort().join());
   };
 
+  // Controller of the run in flight (null when idle)
+  const abortRef = useRef<AbortController | null>(null);
+
   const generate = useCallback(async () => {
-    if (isGenerating) return;
+    // Starting a new run always supersedes the current one
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsGenerating(true);
     setProgress(0);
 
-    await new Promise(resolve => setTimeout(resolve, 50));
-
     try {
-      const data = await generateGyroidMesh(params, (p) => setProgress(p));
+      const t0 = performance.now();
+      const data = await generateMeshInWorker(params, (p) => setProgress(p), controller.signal);
       setMeshData(data);
-      setVertexCount(data.vertices.length / 3);
-      setFaceCount(data.indices.length / 3);
+      const snapshot: Snapshot = {
+        id: ++snapshotId.current,
+        params,
+        mesh: data,
+        thumbnail: renderThumbnail(data),
+        faces: data.indices.length / 3,
+        vertices: data.vertices.length / 3,
+        seconds: (performance.now() - t0) / 1000,
+        createdAt: Date.now(),
+        bytes: meshBytes(data),
+      };
+      setSnapshots(list => addSnapshot(list, snapshot));
     } catch (e) {
-      console.error('Generation failed', e);
+      if (!controller.signal.aborted) console.error('Generation failed', e);
     } finally {
-      setIsGenerating(false);
-      setProgress(100);
+      // A superseding run owns the UI state from here on
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+        setProgress(100);
+      }
     }
-  }, [params, isGenerating]);
+  }, [params]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsGenerating(false);
+  }, []);
 
-  // Auto-generate on mount
+  // Auto-generate on mount; abort whatever is running on unmount
   useEffect(() => {
     generate();
+    return () => abortRef.current?.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Mirror the parameters into the URL (replaceState: no history entry per tweak)
+  useEffect(() => {
+    const hash = encodeParamsHash(params);
+    if (window.location.hash !== hash) history.replaceState(null, '', hash);
+    setLinkCopied(false);
+  }, [params]);
+
+  // A link pasted into this tab only changes the hash: load and generate it
+  const [linkLoads, setLinkLoads] = useState(0);
+  useEffect(() => {
+    const onHashChange = () => {
+      const decoded = decodeParamsHash(window.location.hash);
+      if (!decoded) return;
+      editParams(() => decoded.params);
+      setLinkIssues(decoded.issues);
+      setLinkLoads(n => n + 1);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+  useEffect(() => {
+    if (linkLoads > 0) generate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkLoads]);
+
+  useEffect(() => {
+    if (linkIssues.length > 0) console.warn('Shared link adjusted:', linkIssues);
+  }, [linkIssues]);
+
+  // Undo/redo shortcuts; text fields keep their own
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || target instanceof HTMLTextAreaElement ||
+          (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type))) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) dispatchHistory({ type: 'undo' });
+      else if ((key === 'z' && e.shiftKey) || key === 'y') dispatchHistory({ type: 'redo' });
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Bring back an earlier result as it was, without regenerating
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    cancel();
+    editParams(() => snapshot.params);
+    setMeshData(snapshot.mesh);
+  };
+
+  const moveSection = (axis: Axis, plane: Partial<SectionPlane>) =>
+    setSections(prev => ({ ...prev, [axis]: { ...prev[axis], ...plane } }));
+
+  // Viewport image captioned with the design and the section shown
+  const handleScreenshot = async () => {
+    const viewport = captureRef.current?.();
+    if (!viewport) return;
+    const cut = describeSections(sections);
+    const lines = [
+      `${exportBasename(params)} — wall ${params.wallThickness.toFixed(2)}, ` +
+        `shell ${params.shellThickness} mm, resolution ${params.resolution}`,
+      `Section: ${cut || 'none'}`,
+      `${window.location.href.split('#')[0]}${encodeParamsHash(params)}`,
+    ];
+    try {
+      const blob = await annotateScreenshot(viewport, lines);
+      const tag = sectionTag(sections);
+      downloadBlob(blob, `${exportBasename(params)}-${tag ? `section-${tag}` : 'view'}.png`);
+    } catch (e) {
+      console.error('Screenshot failed', e);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch (e) {
+      console.error('Could not copy link', e);
+    }
+  };
+
+  // Parameters changed mid-run → restart with the new values
+  const lastParamsRef = useRef(params);
+  useEffect(() => {
+    if (lastParamsRef.current === params) return;
+    lastParamsRef.current = params;
+    if (abortRef.current) generate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params]);
+
   const handleExport = () => {
+    if (!shownMesh) return;
+    const info = EXPORT_FORMATS[exportFormat];
+    try {
+      const content = serializeMesh(shownMesh, params, exportFormat);
+      downloadFile(content, `${exportBasename(params)}.${info.extension}`, info.mimeType);
+    } catch (e) {
+      console.error('Export failed', e);
+    }
+  };
+
+  const handleDecimate = async (options: DecimateOptions) => {
     if (!meshData) return;
-    exportToSTL(meshData, `gyroid-${params.size}mm-cell${params.cellSize}.stl`);
+    const source = meshData;
+    setDecimateProgress(0);
+    try {
+      const result = await decimateInWorker(source, options, (p) => setDecimateProgress(p));
+      setDecimated({ source, result });
+    } catch (e) {
+      console.error('Decimation failed', e);
+    } finally {
+      setDecimateProgress(null);
+    }
+  };
+
+  const handleMeasureThickness = async () => {
+    if (!shownMesh) return;
+    const source = shownMesh;
+    setThicknessProgress(0);
+    try {
+      const values = await measureThicknessInWorker(source, (p) => setThicknessProgress(p));
+      setThickness({ source, values });
+      setOverlay('thickness');
+    } catch (e) {
+      console.error('Wall thickness analysis failed', e);
+    } finally {
+      setThicknessProgress(null);
+    }
+  };
+
+  const changeGcode = (next: GcodeSettings) => {
+    setGcode(next);
+    saveGcodeSettings(next);
+  };
+
+  const changeProfile = (next: PrinterProfile) => {
+    setProfile(next);
+    saveActiveProfile(next);
+    setMinWall(next.minWall);
+    setOverhang(o => ({ ...o, criticalAngle: next.criticalAngle }));
+    changeGcode(gcodeForProfile(gcode, next));
+  };
+
+  const handleSlice = async () => {
+    const source = params;
+    const options: SliceOptions = {
+      layerHeight: gcode.layerHeight, lineWidth: gcode.lineWidth, perimeters: gcode.perimeters,
+    };
+    setSliceProgress(0);
+    setSliceFailure(null);
+    try {
+      const result = await sliceInWorker(source, options, (p) => setSliceProgress(p));
+      setSliced({ params: source, options, toolpath: result });
+      setToolpathLayer(layerCount(result) - 1);
+      setShowToolpath(true);
+    } catch (e) {
+      console.error('Slicing failed', e);
+      setSliceFailure({ params: source, options, message: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setSliceProgress(null);
+    }
+  };
+
+  const handleGcodeExport = () => {
+    if (!toolpath) return;
+    try {
+      const title = [
+        `${exportBasename(params)} — ${profile.name}, ${profile.material.name}`,
+        `${window.location.href.split('#')[0]}${encodeParamsHash(params)}`,
+      ];
+      downloadFile(writeGcode(toolpath, gcode, title), `${exportBasename(params)}.gcode`, 'text/x-gcode');
+    } catch (e) {
+      console.error('G-code export failed', e);
+    }
+  };
+
+  const handleSuggestOrientation = () => {
+    if (!shownMesh) return;
+    const { best, reports } = bestAxisOrientation(shownMesh, overhang.criticalAngle);
+    setOrientationRun({ source: shownMesh, criticalAngle: overhang.criticalAngle, best, reports });
   };
 
+  // CFD fluid domains: a separate meshing run, one file per channel.  Patch
+  // names need a grouped format, so anything else falls back to ASCII STL.
+  const handleFluidExport = async () => {
+    const format = GROUPED_FORMATS.includes(exportFormat) ? exportFormat : 'stl-ascii';
+    const info = EXPORT_FORMATS[format];
+    setFluidProgress(0);
+    try {
+      const domains = await generateFluidDomainsInWorker(params, (p) => setFluidProgress(p));
+      for (const channel of ['a', 'b'] as Channel[]) {
+        const content = serializeMesh(domains[channel], params, format);
+        downloadFile(content, `${fluidBasename(params, channel)}.${info.extension}`, info.mimeType);
+      }
+    } catch (e) {
+      console.error('Fluid domain export failed', e);
+    } finally {
+      setFluidProgress(null);
+    }
+  };
+
+  // Large parts: mesh again slab by slab and write binary STL straight to
+  // disk, without holding the mesh or the file in memory
+  const handleStreamExport = async () => {
+    const info = EXPORT_FORMATS.stl;
+    try {
+      const sink = await openDownloadSink(`${exportBasename(params)}.${info.extension}`, info.mimeType);
+      if (!sink) return;
+      setStreamProgress(0);
+      const { triangles, bytes } = await writeSTLStream(sink, (onChunk) =>
+        streamSTLInWorker(params, onChunk, (p) => setStreamProgress(p)));
+      console.log(`Streamed STL: ${triangles} triangles, ${(bytes / 1e6).toFixed(0)} MB`);
+    } catch (e) {
+      console.error('Streamed export failed', e);
+    } finally {
+      setStreamProgress(null);
+    }
+  };
+
+  // Viewport framing follows the part's real extents, headers included
+  const box = resolveBox(params);
+  const extent = Math.max(...AXES.map((axis, a) => box.dims[a] + 2 * headerReach(params, axis)));
+  const floorY = -(box.half[1] + headerReach(params, 'y'));
+
   return (
     <div className="flex h-screen w-screen bg-neutral-900 text-neutral-100 overflow-hidden font-sans">
       {/* Sidebar Controls */}
@@ -74,20 +457,129 @@ const App: React.FC = () => {
             GyroidGen
           </h1>
           <p className="text-xs text-neutral-500 mt-1">Dual-channel heat exchanger core</p>
+          <div className="mt-3 flex items-center gap-3 text-[11px] text-neutral-400">
+            <button
+              onClick={copyLink}
+              title="Copy a link that opens these exact parameters"
+              className="flex items-center gap-1.5 hover:text-cyan-300 transition-colors"
+            >
+              <Link size={12} />
+              {linkCopied ? 'Link copied' : 'Copy share link'}
+            </button>
+            <button
+              onClick={() => dispatchHistory({ type: 'undo' })}
+              disabled={paramHistory.past.length === 0}
+              title="Undo parameter change (Ctrl+Z)"
+              className="ml-auto hover:text-cyan-300 disabled:text-neutral-700 transition-colors"
+            >
+              <Undo2 size={14} />
+            </button>
+            <button
+              onClick={() => dispatchHistory({ type: 'redo' })}
+              disabled={paramHistory.future.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+              className="hover:text-cyan-300 disabled:text-neutral-700 transition-colors"
+            >
+              <Redo2 size={14} />
+            </button>
+          </div>
         </div>
 
+        {linkIssues.length > 0 && (
+          <div className="mx-6 mt-4 rounded-md border border-yellow-800/60 bg-yellow-900/20 px-3 py-2 text-[11px] text-yellow-200/90">
+            <div className="flex items-center gap-2 font-medium">
+              <TriangleAlert size={13} />
+              <span>Shared link adjusted</span>
+              <button onClick={() => setLinkIssues([])} title="Dismiss" className="ml-auto text-yellow-300/70 hover:text-yellow-200">
+                <X size={13} />
+              </button>
+            </div>
+            <ul className="mt-1 space-y-0.5 text-yellow-200/70">
+              {linkIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+            </ul>
+          </div>
+        )}
+
         <ControlPanel
           params={params}
           onChange={handleParamChange}
-          disabled={isGenerating}
+          onLoadPreset={(preset) => editParams(() => preset)}
+          profile={profile}
+          onProfileChange={changeProfile}
         />
 
         <div className="p-6 mt-auto border-t border-neutral-800 space-y-4">
+          <MetricsPanel metrics={meshData?.metrics ?? null} material={profile.material} />
+          <DecimatePanel
+            faceCount={meshData ? meshData.indices.length / 3 : 0}
+            result={decimation}
+            progress={decimateProgress}
+            disabled={isGenerating || !meshData}
+            onApply={handleDecimate}
+            onReset={() => setDecimated(null)}
+          />
+          <ThicknessPanel
+            report={thinWalls}
+            progress={thicknessProgress}
+            disabled={isGenerating || !shownMesh}
+            minWall={minWall}
+            onMinWallChange={setMinWall}
+            showHeatmap={overlay === 'thickness'}
+            onShowHeatmapChange={(show) => setOverlay(show ? 'thickness' : 'none')}
+            onMeasure={handleMeasureThickness}
+          />
+          <OverhangPanel
+            settings={overhang}
+            onChange={setOverhang}
+            enabled={overlay === 'overhang'}
+            onEnabledChange={(on) => setOverlay(on ? 'overhang' : 'none')}
+            report={overhangReport}
+            orientations={orientations}
+            disabled={isGenerating || !shownMesh}
+            onSuggest={handleSuggestOrientation}
+          />
+          <ToolpathPanel
+            settings={gcode}
+            onChange={changeGcode}
+            stats={toolpathReport}
+            progress={sliceProgress}
+            error={sliceError}
+            disabled={isGenerating}
+            onSlice={handleSlice}
+            onDownload={handleGcodeExport}
+            showPreview={showToolpath}
+            onShowPreviewChange={setShowToolpath}
+            layer={toolpathLayer}
+            onLayerChange={setToolpathLayer}
+          />
+          <SectionPanel
+            params={params}
+            sections={sections}
+            active={activeSection}
+            onChange={moveSection}
+            onActivate={setActiveSection}
+          />
+          <SnapshotPanel
+            snapshots={snapshots}
+            current={meshData}
+            budget={SNAPSHOT_BUDGET}
+            onRestore={restoreSnapshot}
+            onRemove={(id) => setSnapshots(list => list.filter(s => s.id !== id))}
+          />
+          <IntegrityPanel
+            report={report}
+            checking={!!shownMesh && !report}
+            showProblems={showProblemEdges}
+            onShowProblemsChange={setShowProblemEdges}
+          />
+
           <div className="space-y-2">
             <div className="flex justify-between text-xs text-neutral-400">
               <span>Status</span>
-              <span className={isGenerating ? 'text-yellow-400' : 'text-green-400'}>
-                {isGenerating ? `Generating ${Math.round(progress)}%` : 'Ready'}
+              <span className={isGenerating || exporting ? 'text-yellow-400' : 'text-green-400'}>
+                {isGenerating ? `Generating ${Math.round(progress)}%`
+                  : fluidProgress !== null ? `Meshing fluid ${Math.round(fluidProgress)}%`
+                  : streamProgress !== null ? `Streaming STL ${Math.round(streamProgress)}%` : 'Ready'}
               </span>
             </div>
             {isGenerating && (
@@ -109,27 +601,64 @@ const App: React.FC = () => {
           </div>
 
           <div className="grid grid-cols-2 gap-3">
+            {isGenerating ? (
+              <button
+                onClick={cancel}
+                className="col-span-2 px-4 py-2 rounded-md font-medium text-sm transition-colors bg-neutral-800 hover:bg-red-900/60 text-red-300 border border-red-800/60"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={generate}
+                className="col-span-2 px-4 py-2 rounded-md font-medium text-sm transition-colors bg-neutral-800 hover:bg-neutral-700 text-white border border-neutral-700"
+              >
+                Update
+              </button>
+            )}
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-2 text-sm text-neutral-200"
+            >
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+              ))}
+            </select>
             <button
-              onClick={generate}
-              disabled={isGenerating}
+              onClick={handleExport}
+              disabled={isGenerating || !shownMesh}
               className={`px-4 py-2 rounded-md font-medium text-sm transition-colors ${
-                isGenerating
+                isGenerating || !shownMesh
                   ? 'bg-neutral-800 text-neutral-500 cursor-not-allowed'
-                  : 'bg-neutral-800 hover:bg-neutral-700 text-white border border-neutral-700'
+                  : 'bg-cyan-600 hover:bg-cyan-500 text-white shadow-lg shadow-cyan-900/20'
               }`}
             >
-              Update
+              Export
             </button>
             <button
-              onClick={handleExport}
-              disabled={isGenerating || !meshData}
-              className={`px-4 py-2 rounded-md font-medium text-sm transition-colors ${
-                isGenerating || !meshData
-                  ? 'bg-neutral-800 text-neutral-500 cursor-not-allowed'
-                  : 'bg-cyan-600 hover:bg-cyan-500 text-white shadow-lg shadow-cyan-900/20'
+              onClick={handleFluidExport}
+              disabled={isGenerating || exporting}
+              title="Closed fluid volume of each channel with inlet/outlet patches (ASCII STL or OBJ)"
+              className={`col-span-2 px-4 py-2 rounded-md font-medium text-sm transition-colors border ${
+                isGenerating || exporting
+                  ? 'bg-neutral-800 text-neutral-500 border-neutral-800 cursor-not-allowed'
+                  : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-200 border-neutral-700'
+              }`}
+            >
+              Export fluid domains (CFD)
+            </button>
+            <button
+              onClick={handleStreamExport}
+              disabled={isGenerating || exporting}
+              title="Mesh at the current resolution and write binary STL to disk slab by slab — for parts too large to preview (unsmoothed)"
+              className={`col-span-2 px-4 py-2 rounded-md font-medium text-sm transition-colors border ${
+                isGenerating || exporting
+                  ? 'bg-neutral-800 text-neutral-500 border-neutral-800 cursor-not-allowed'
+                  : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-200 border-neutral-700'
               }`}
             >
-              Export STL
+              Stream large STL
             </button>
           </div>
         </div>
@@ -138,8 +667,8 @@ const App: React.FC = () => {
       {/* 3D Viewport */}
       <main className="flex-1 relative bg-neutral-950">
         <div className="absolute inset-0">
-          <Canvas shadows dpr={[1, 2]}>
-            <PerspectiveCamera makeDefault position={[params.size * 1.5, params.size * 1.2, params.size * 1.5]} fov={45} />
+          <Canvas shadows dpr={[1, 2]} gl={{ stencil: true }}>
+            <PerspectiveCamera makeDefault position={[extent * 1.5, extent * 1.2, extent * 1.5]} fov={45} />
             <OrbitControls makeDefault minDistance={10} maxDistance={500} target={[0, 0, 0]} />
 
             <ambientLight intensity={0.4} />
@@ -152,20 +681,40 @@ const App: React.FC = () => {
             <directionalLight position={[-50, -50, -25]} intensity={0.5} color="#ccf" />
 
             <group position={[0, 0, 0]}>
-              <GeometryPreview meshData={meshData} params={params} />
+              <GeometryPreview
+                meshData={shownMesh}
+                params={params}
+                problemEdges={showProblemEdges ? report?.problemEdges : undefined}
+                colors={meshColors}
+                buildUp={overlay === 'overhang' ? buildUp : undefined}
+                sections={sections}
+                activeSection={activeSection}
+                onSectionMove={(axis, offset) => moveSection(axis, { offset })}
+                toolpath={showToolpath && toolpath ? toolpath : undefined}
+                toolpathLayer={toolpathLayer}
+                captureRef={captureRef}
+              />
 
-              <gridHelper args={[params.size * 2, 10, 0x444444, 0x222222]} position={[0, -params.size / 2, 0]} />
-              <axesHelper args={[params.size / 2 + 10]} />
+              <gridHelper args={[extent * 2, 10, 0x444444, 0x222222]} position={[0, floorY, 0]} />
+              <axesHelper args={[extent / 2 + 10]} />
             </group>
 
             <Environment preset="city" />
           </Canvas>
         </div>
 
-        <div className="absolute top-4 right-4 pointer-events-none">
-          <div className="bg-neutral-900/80 backdrop-blur px-3 py-2 rounded text-xs text-neutral-400 border border-neutral-800">
+        <div className="absolute top-4 right-4 flex items-center gap-2">
+          <div className="pointer-events-none bg-neutral-900/80 backdrop-blur px-3 py-2 rounded text-xs text-neutral-400 border border-neutral-800">
             LMB: Rotate • RMB: Pan • Scroll: Zoom
           </div>
+          <button
+            onClick={handleScreenshot}
+            disabled={!shownMesh}
+            title="Save the view as PNG, captioned with the parameters and section planes"
+            className="bg-neutral-900/80 backdrop-blur p-2 rounded text-neutral-400 border border-neutral-800 hover:text-neutral-200 disabled:opacity-40"
+          >
+            <Camera size={14} />
+          </button>
         </div>
       </main>
     </div>
@@ -0,0 +1,325 @@
+/**
+ * Headless generator — runs the same pipeline as the browser app and writes
+ * the mesh to disk.
+ *
+ *   npm run cli -- --params part.json --format 3mf --out part.3mf
+ *   npm run cli -- --size 60 --cell-size 15 --surface schwarzD --manifold
+ *   npm run cli -- --fluid-domains --out core.stl   # core-fluid-a.stl, core-fluid-b.stl
+ *   npm run cli -- --resolution 600 --stream --out big.stl
+ *
+ * Flags override values from the params file, which override the app
+ * defaults.  Exits 1 when generation or export fails, 2 on bad arguments,
+ * 3 when --require-watertight is given and the mesh is not watertight.
+ */
+import { closeSync, openSync, readFileSync, writeSync } from 'node:fs';
+import { open, rm } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { Channel, ChannelPair, EnvelopeType, ExportFormat, FittingType, GenParams, SurfaceType } from '../types';
+import { checkedBox } from '../utils/box';
+import { DEFAULT_PARAMS } from '../utils/defaults';
+import { generateGyroidMesh } from '../utils/marchingCubes';
+import { generateFluidDomains } from '../utils/fluidDomains';
+import { EXPORT_FORMATS, GROUPED_FORMATS, exportBasename, fluidBasename, serializeMesh } from '../utils/exporters';
+import { analyzeMesh } from '../utils/meshIntegrity';
+import { DecimateOptions, decimateMesh } from '../utils/decimate';
+import { ByteSink, streamPartSTL, writeSTLStream } from '../utils/stlStream';
+import { TPMS_FUNCTIONS } from '../utils/tpms';
+import { FITTINGS } from '../utils/headers';
+
+const USAGE = `Usage: gyroidgen [options]
+
+  -p, --params <file>        GenParams JSON file
+  -o, --out <file>           output path (default: <surface>-<size>-cells<n>.<ext>)
+  -f, --format <fmt>         ${Object.keys(EXPORT_FORMATS).join(' | ')}
+                             (default: stl, stl-ascii for --fluid-domains)
+      --size <mm>            cube edge length
+      --cell-size <mm>       target cell size
+      --surface <type>       ${Object.keys(TPMS_FUNCTIONS).join(' | ')}
+      --wall-thickness <t>   TPMS isovalue threshold
+      --envelope <type>      box | cylinder | sphere | hexPrism
+      --shell-thickness <mm>
+      --frame                edge-beam frame instead of a shell
+      --manifold             seal the ports (watertight part)
+      --fillet <mm>
+      --headers              plenum headers with fittings on the port faces
+      --fitting <type>       stub | barb | flange
+      --resolution <n>       samples along the longest edge
+      --smoothing <n>        Taubin smoothing passes
+      --fluid-domains        write each channel's fluid volume for CFD instead
+                             of the part: <out>-fluid-a / -fluid-b, with
+                             inlet/outlet patches (${GROUPED_FORMATS.join(' | ')})
+      --decimate-faces <n>   decimate to at most n faces before export
+      --decimate-error <mm>  decimate within this surface deviation
+      --stream               write binary STL slab by slab while meshing, for
+                             parts too large to hold in memory (unsmoothed,
+                             no mesh report)
+      --require-watertight   exit 3 if the mesh has integrity problems
+  -q, --quiet                only print errors
+  -v, --verbose              include pipeline log output
+  -h, --help
+`;
+
+const ENVELOPES: EnvelopeType[] = ['box', 'cylinder', 'sphere', 'hexPrism'];
+
+class UsageError extends Error {}
+
+// Write a file chunk by chunk, so no single buffer has to hold it
+function writeChunks(path: string, chunks: Uint8Array[]) {
+  const fd = openSync(path, 'w');
+  try {
+    for (const chunk of chunks) writeSync(fd, chunk);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Output file as a ByteSink; an aborted write removes the partial file
+async function fileSink(path: string): Promise<ByteSink> {
+  const handle = await open(path, 'w');
+  return {
+    write: async (chunk) => { await handle.write(chunk); },
+    patch: async (position, data) => { await handle.write(data, 0, data.length, position); },
+    close: () => handle.close(),
+    abort: async () => {
+      await handle.close();
+      await rm(path, { force: true });
+    },
+  };
+}
+
+function numberFlag(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`--${name} expects a number, got "${value}"`);
+  return n;
+}
+
+function readParams(values: Record<string, string | boolean | undefined>): GenParams {
+  let params: GenParams = { ...DEFAULT_PARAMS };
+  if (typeof values.params === 'string') {
+    let fromFile: Partial<GenParams>;
+    try {
+      fromFile = JSON.parse(readFileSync(values.params, 'utf8'));
+    } catch (e) {
+      throw new UsageError(`Cannot read params file ${values.params}: ${e instanceof Error ? e.message : e}`);
+    }
+    params = { ...params, ...fromFile };
+  }
+
+  const str = (k: string) => (typeof values[k] === 'string' ? values[k] as string : undefined);
+  const overrides: Partial<GenParams> = {
+    size:                numberFlag('size', str('size')),
+    cellSize:            numberFlag('cell-size', str('cell-size')),
+    wallThickness:       numberFlag('wall-thickness', str('wall-thickness')),
+    shellThickness:      numberFlag('shell-thickness', str('shell-thickness')),
+    filletRadius:        numberFlag('fillet', str('fillet')),
+    resolution:          numberFlag('resolution', str('resolution')),
+    smoothingIterations: numberFlag('smoothing', str('smoothing')),
+  };
+  const surface = str('surface');
+  if (surface !== undefined) {
+    if (!(surface in TPMS_FUNCTIONS)) throw new UsageError(`Unknown surface type: ${surface}`);
+    overrides.surfaceType = surface as SurfaceType;
+  }
+  const envelope = str('envelope');
+  if (envelope !== undefined) {
+    if (!ENVELOPES.includes(envelope as EnvelopeType)) throw new UsageError(`Unknown envelope: ${envelope}`);
+    overrides.envelope = envelope as EnvelopeType;
+  }
+  const fitting = str('fitting');
+  if (fitting !== undefined) {
+    if (!FITTINGS.some(f => f.id === fitting)) throw new UsageError(`Unknown fitting: ${fitting}`);
+    overrides.fitting = fitting as FittingType;
+  }
+  if (values.headers) overrides.headers = true;
+  if (values.frame) overrides.useFrame = true;
+  if (values.manifold) overrides.makeManifold = true;
+
+  for (const [k, v] of Object.entries(overrides)) {
+    if (v !== undefined) (params as unknown as Record<string, unknown>)[k] = v;
+  }
+  try {
+    checkedBox(params);
+  } catch (e) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+  return params;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        params:               { type: 'string', short: 'p' },
+        out:                  { type: 'string', short: 'o' },
+        format:               { type: 'string', short: 'f' },
+        size:                 { type: 'string' },
+        'cell-size':          { type: 'string' },
+        surface:              { type: 'string' },
+        'wall-thickness':     { type: 'string' },
+        envelope:             { type: 'string' },
+        'shell-thickness':    { type: 'string' },
+        frame:                { type: 'boolean' },
+        manifold:             { type: 'boolean' },
+        fillet:               { type: 'string' },
+        headers:              { type: 'boolean' },
+        fitting:              { type: 'string' },
+        resolution:           { type: 'string' },
+        smoothing:            { type: 'string' },
+        'fluid-domains':      { type: 'boolean' },
+        'decimate-faces':     { type: 'string' },
+        'decimate-error':     { type: 'string' },
+        stream:               { type: 'boolean' },
+        'require-watertight': { type: 'boolean' },
+        quiet:                { type: 'boolean', short: 'q' },
+        verbose:              { type: 'boolean', short: 'v' },
+        help:                 { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    console.error(USAGE);
+    return 2;
+  }
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  let params: GenParams;
+  let decimate: DecimateOptions | null = null;
+  const fluid = !!values['fluid-domains'];
+  const stream = !!values.stream;
+  const format = (values.format ?? (fluid ? 'stl-ascii' : 'stl')) as ExportFormat;
+  try {
+    if (!(format in EXPORT_FORMATS)) throw new UsageError(`Unknown format: ${format}`);
+    if (fluid && !GROUPED_FORMATS.includes(format)) {
+      throw new UsageError(`--fluid-domains needs a format that keeps patch names: ${GROUPED_FORMATS.join(' | ')}`);
+    }
+    params = readParams(values);
+    const targetFaces = numberFlag('decimate-faces', values['decimate-faces']);
+    const maxError = numberFlag('decimate-error', values['decimate-error']);
+    if (targetFaces !== undefined || maxError !== undefined) {
+      if (fluid) throw new UsageError('--decimate-* does not apply to --fluid-domains');
+      decimate = { targetFaces, maxError };
+    }
+    if (stream) {
+      if (format !== 'stl') throw new UsageError('--stream writes binary STL only');
+      if (fluid || decimate || values['require-watertight']) {
+        throw new UsageError('--stream cannot be combined with --fluid-domains, --decimate-* or --require-watertight');
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e;
+    console.error(e.message);
+    return 2;
+  }
+
+  const quiet = !!values.quiet;
+  const info = (msg: string) => { if (!quiet) process.stderr.write(msg + '\n'); };
+  // The pipeline narrates through console.log; keep stdout clean unless asked
+  if (!values.verbose) console.log = () => {};
+
+  const out = values.out ?? `${exportBasename(params)}.${EXPORT_FORMATS[format].extension}`;
+  const t0 = performance.now();
+
+  let lastReported = -1;
+  const onProgress = (p: number) => {
+    const pct = Math.floor(p / 10) * 10;
+    if (pct > lastReported) {
+      lastReported = pct;
+      info(`  ${pct}%`);
+    }
+  };
+
+  if (fluid) {
+    // --out names the pair: part.stl → part-fluid-a.stl, part-fluid-b.stl
+    const ext = EXPORT_FORMATS[format].extension;
+    const base = values.out?.replace(/\.[^./\\]*$/, '');
+    try {
+      const domains = await generateFluidDomains(params, onProgress);
+      info(`Fluid domains in ${((performance.now() - t0) / 1000).toFixed(1)} s`);
+      for (const channel of ['a', 'b'] as Channel[]) {
+        const file = base ? `${base}-fluid-${channel}.${ext}` : `${fluidBasename(params, channel)}.${ext}`;
+        const mesh = domains[channel];
+        const report = analyzeMesh(mesh);
+        writeChunks(file, serializeMesh(mesh, params, format));
+        info(`Wrote ${file} — ${(report.volume / 1000).toFixed(2)} cm³, ` +
+          `${report.watertight ? 'watertight' : 'NOT watertight'}`);
+        info(`  patches   ${(mesh.groups ?? []).map(g => `${g.name} ${g.count}`).join(', ')} faces`);
+        if (values['require-watertight'] && !report.watertight) {
+          console.error(`Fluid domain ${channel.toUpperCase()} is not watertight`);
+          return 3;
+        }
+      }
+      return 0;
+    } catch (e) {
+      console.error(`Generation failed: ${e instanceof Error ? e.message : e}`);
+      return 1;
+    }
+  }
+
+  if (stream) {
+    try {
+      const { triangles, bytes } = await writeSTLStream(await fileSink(out),
+        (onChunk) => streamPartSTL(params, onChunk, onProgress));
+      info(`Streamed ${out} in ${((performance.now() - t0) / 1000).toFixed(1)} s — ` +
+        `${triangles.toLocaleString()} faces, ${(bytes / 1e6).toFixed(0)} MB`);
+      return 0;
+    } catch (e) {
+      console.error(`Generation failed: ${e instanceof Error ? e.message : e}`);
+      return 1;
+    }
+  }
+
+  try {
+    let mesh = await generateGyroidMesh(params, onProgress);
+    const genMs = performance.now() - t0;
+    if (decimate) {
+      const result = decimateMesh(mesh, decimate);
+      mesh = result.mesh;
+      info(`Decimated ${result.facesBefore.toLocaleString()} → ${result.facesAfter.toLocaleString()} faces, ` +
+        `max deviation ${result.maxDeviation.toFixed(3)} mm`);
+    }
+
+    const report = analyzeMesh(mesh);
+    writeChunks(out, serializeMesh(mesh, params, format));
+
+    info(`Wrote ${out} (${EXPORT_FORMATS[format].label}) in ${(genMs / 1000).toFixed(1)} s`);
+    info(`  vertices  ${report.vertexCount.toLocaleString()}`);
+    info(`  faces     ${report.faceCount.toLocaleString()}`);
+    info(`  volume    ${(report.volume / 1000).toFixed(2)} cm³`);
+    info(`  area      ${(report.area / 100).toFixed(1)} cm²`);
+    info(`  bbox      ${report.bboxMax.map((v, a) => (v - report.bboxMin[a]).toFixed(1)).join(' × ')} mm`);
+    info(`  integrity ${report.watertight ? 'watertight' :
+      `${report.boundaryEdges} boundary, ${report.nonManifoldEdges} non-manifold edges, ` +
+      `${report.nonManifoldVertices} non-manifold vertices, ${report.flippedEdges} flipped`}` +
+      ` — ${report.components} component(s), genus ${report.genus ?? 'n/a'}`);
+    const m = mesh.metrics;
+    if (m) {
+      const pair = (p: ChannelPair, scale: number, digits: number) =>
+        `A ${(p.a / scale).toFixed(digits)} / B ${(p.b / scale).toFixed(digits)}`;
+      info(`  fluid     ${pair(m.channelVolume, 1000, 1)} cm³, porosity ${(m.porosity * 100).toFixed(1)} %`);
+      info(`  wetted    ${pair(m.wettedArea, 100, 0)} cm²`);
+      info(`  Dh        ${pair(m.hydraulicDiameter, 1, 2)} mm`);
+      info(`  ports     ${m.portArea.map(({ face, open }) =>
+        `${face} ${(open.a + open.b).toFixed(0)}`).join(', ')} mm²`);
+    }
+
+    if (values['require-watertight'] && !report.watertight) {
+      console.error('Mesh is not watertight');
+      return 3;
+    }
+    return 0;
+  } catch (e) {
+    console.error(`Generation failed: ${e instanceof Error ? e.message : e}`);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (e) => { console.error(e); process.exitCode = 1; },
+);
@@ -1,11 +1,30 @@
 import React from 'react';
-import { GenParams } from '../types';
+import {
+  Axis, Channel, EnvelopeType, GenParams, GradientMode, PortFace, PortLayout, PortSpec, Vec3,
+} from '../types';
 import { Box, Grid, Layers, SquareDashedKanban, Activity } from 'lucide-react';
+import { SURFACE_TYPES } from '../utils/tpms';
+import { wallThicknessRange } from '../utils/grading';
+import { resolveBox } from '../utils/box';
+import { envelopeVolume, usesFrame } from '../utils/envelope';
+import { FITTINGS } from '../utils/headers';
+import { PresetPanel } from './PresetPanel';
+import { PrinterProfilePanel } from './PrinterProfilePanel';
+import {
+  MAX_BUILD_SIZE, PrinterProfile, Status, buildVolumeFit, partExtent, spanStatus, wallStatus,
+} from '../utils/printerProfiles';
+import {
+  DEFAULT_PORTS, FLOW_ARRANGEMENTS, FULL_WINDOW, PORT_FACES, PORT_WINDOWS,
+  faceLabel, portFaces, portsOverlap,
+} from '../utils/ports';
 
 interface ControlPanelProps {
   params: GenParams;
   onChange: (params: Partial<GenParams>) => void;
-  disabled: boolean;
+  onLoadPreset: (params: GenParams) => void;  // replaces every parameter
+  profile: PrinterProfile;                    // limits the indicators are judged against
+  onProfileChange: (profile: PrinterProfile) => void;
+  disabled?: boolean;
 }
 
 // ─── Printability heuristics ────────────────────────────────────────────────
@@ -19,11 +38,45 @@ const estWallMM = (cellSize: number, wt: number) =>
 const estSpanMM = (cellSize: number, wt: number) =>
   cellSize * (1 - wt / Math.PI);
 
-type Status = 'good' | 'warn' | 'bad';
-const wallStatus = (mm: number): Status =>
-  mm >= 3.0 ? 'good' : mm >= 1.5 ? 'warn' : 'bad';
-const spanStatus = (mm: number): Status =>
-  mm <= 20 ? 'good' : mm <= 35 ? 'warn' : 'bad';
+// Status thresholds come from the printer profile (utils/printerProfiles)
+
+const GRADIENT_MODES: { id: GradientMode; label: string }[] = [
+  { id: 'none',   label: 'Uniform' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'radial', label: 'Radial' },
+  { id: 'ports',  label: 'Ports' },
+];
+
+// Slider labels for the two ends of each gradient
+const gradientEnds = (mode: GradientMode, axis: Axis): [string, string] => {
+  const A = axis.toUpperCase();
+  switch (mode) {
+    case 'linear': return [`${A}− face`, `${A}+ face`];
+    case 'radial': return ['centre', 'faces'];
+    case 'ports':  return ['core', 'port faces'];
+    default:       return ['', ''];
+  }
+};
+
+const ENVELOPES: { id: EnvelopeType; label: string; noun: string }[] = [
+  { id: 'box',      label: 'Box',      noun: 'box' },
+  { id: 'cylinder', label: 'Cylinder', noun: 'cylinder (axis Z)' },
+  { id: 'sphere',   label: 'Sphere',   noun: 'sphere' },
+  { id: 'hexPrism', label: 'Hex',      noun: 'hex prism (axis Z)' },
+];
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+const sameWindow = (a?: PortSpec['window'], b?: PortSpec['window']) =>
+  (a ?? FULL_WINDOW).every((t, i) => t === (b ?? FULL_WINDOW)[i]);
+const sameLayout = (a: PortLayout, b: PortLayout) =>
+  (['a', 'b'] as Channel[]).every(c => (['inlet', 'outlet'] as const).every(r =>
+    a[c][r].face === b[c][r].face && sameWindow(a[c][r].window, b[c][r].window)));
+const withAxis = (v: Vec3, a: number, x: number): Vec3 =>
+  v.map((c, i) => (i === a ? x : c)) as Vec3;
+
+const fmtRange = (min: number, max: number) =>
+  Math.abs(max - min) < 0.05 ? `${min.toFixed(1)} mm` : `${min.toFixed(1)}–${max.toFixed(1)} mm`;
 
 const statusColor: Record<Status, string> = {
   good: 'text-green-400',
@@ -68,31 +121,104 @@ const Slider: React.FC<SliderProps> = ({
 );
 
 // ─── Component ───────────────────────────────────────────────────────────────
-export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, disabled }) => {
+export const ControlPanel: React.FC<ControlPanelProps> = ({
+  params, onChange, onLoadPreset, profile, onProfileChange, disabled = false,
+}) => {
   // Derived printability values
-  const cellCount     = Math.max(1, Math.round(params.size / params.cellSize));
-  const actualCellMM  = params.size / cellCount;
-  const wallMM        = estWallMM(actualCellMM, params.wallThickness);
-  const spanMM        = estSpanMM(actualCellMM, params.wallThickness);
-  const wStat         = wallStatus(wallMM);
-  const sStat         = spanStatus(spanMM);
-  const overallOk     = wStat !== 'bad' && sStat !== 'bad';
+  const box           = resolveBox(params);
+  const boxMode       = !!params.dimensions;
+  const cellCount     = box.cellCounts[0];
+  const minCellMM     = Math.min(...box.cellSizes);
+  const maxCellMM     = Math.max(...box.cellSizes);
+  const wtRange       = wallThicknessRange(params);
+  const wallMinMM     = estWallMM(minCellMM, wtRange.min);
+  const wallMaxMM     = estWallMM(maxCellMM, wtRange.max);
+  const spanMinMM     = estSpanMM(minCellMM, wtRange.max);
+  const spanMaxMM     = estSpanMM(maxCellMM, wtRange.min);
+  const wStat         = wallStatus(wallMinMM, profile);
+  const sStat         = spanStatus(spanMaxMM, profile);
+  const extent        = partExtent(params);
+  const fit           = buildVolumeFit(extent, profile.buildVolume);
+  const fStat: Status = fit === 'fits' ? 'good' : fit === 'rotated' ? 'warn' : 'bad';
+  const overallOk     = wStat !== 'bad' && sStat !== 'bad' && fStat !== 'bad';
+  // Size sliders reach the largest build volume edge
+  const sizeMax       = Math.min(MAX_BUILD_SIZE, Math.ceil(Math.max(...profile.buildVolume) / 5) * 5);
+  const shrinkScale   = 1 / (1 - profile.material.shrinkage / 100);
+  const surfaceType   = params.surfaceType ?? 'gyroid';
+  const surfaceInfo   = SURFACE_TYPES.find(s => s.id === surfaceType) ?? SURFACE_TYPES[0];
+  const gradientMode  = params.gradientMode ?? 'none';
+  const gradientAxis  = params.gradientAxis ?? 'z';
+  const graded        = gradientMode !== 'none';
+  const [startLabel, endLabel] = gradientEnds(gradientMode, gradientAxis);
+  const envelope      = params.envelope ?? 'box';
+  const envelopeInfo  = ENVELOPES.find(e => e.id === envelope) ?? ENVELOPES[0];
+  const frame         = usesFrame(params);
+  const envelopeCm3   = envelopeVolume(params) / 1000;
+  const ports         = params.ports ?? DEFAULT_PORTS;
+  const arrangement   = FLOW_ARRANGEMENTS.find(f => sameLayout(f.ports, ports))?.id;
+  const usedFaces     = portFaces(params);
+  const sealedFaces   = PORT_FACES.filter(f => !usedFaces.has(f));
+  const portSummary   = (c: Channel) => `${faceLabel(ports[c].inlet.face)}/${faceLabel(ports[c].outlet.face)}`;
+  const setPort = (channel: Channel, role: 'inlet' | 'outlet', spec: PortSpec) =>
+    onChange({ ports: { ...ports, [channel]: { ...ports[channel], [role]: spec } } });
 
   return (
     <div className="p-6 space-y-8">
 
+      <PresetPanel params={params} onLoad={onLoadPreset} disabled={disabled} />
+
+      <PrinterProfilePanel profile={profile} onChange={onProfileChange} disabled={disabled} />
+
       {/* ── Volume Size ─────────────────────────────────────────── */}
       <section className="space-y-3">
         <div className="flex items-center gap-2 text-cyan-400">
           <Box size={15} />
           <span className="text-sm font-semibold uppercase tracking-wider">Volume</span>
         </div>
-        <Slider
-          label="Size (mm)" value={`${params.size} mm`}
-          min={20} max={250} step={5} currentValue={params.size}
-          onChange={(v) => onChange({ size: v })} disabled={disabled}
-          hint="Edge length of the cube in millimetres"
-        />
+        {/* Cube / box toggle */}
+        <div className="flex rounded-md overflow-hidden border border-neutral-700 text-sm font-medium">
+          <button
+            onClick={() => onChange({ dimensions: undefined, cellSizes: undefined, size: box.dims[0], cellSize: box.cellSizes[0] })}
+            disabled={disabled}
+            className={`flex-1 py-2 transition-colors disabled:opacity-40 ${
+              !boxMode
+                ? 'bg-cyan-700 text-white'
+                : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+            }`}
+          >
+            Cube
+          </button>
+          <button
+            onClick={() => onChange({ dimensions: [...box.dims], cellSizes: [...box.cellSizes] })}
+            disabled={disabled}
+            className={`flex-1 py-2 transition-colors disabled:opacity-40 ${
+              boxMode
+                ? 'bg-cyan-700 text-white'
+                : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+            }`}
+          >
+            Box
+          </button>
+        </div>
+
+        {!boxMode ? (
+          <Slider
+            label="Size (mm)" value={`${params.size} mm`}
+            min={20} max={Math.max(sizeMax, params.size)} step={5} currentValue={params.size}
+            onChange={(v) => onChange({ size: v })} disabled={disabled}
+            hint="Edge length of the cube in millimetres"
+          />
+        ) : (
+          AXES.map((A, a) => (
+            <Slider
+              key={A}
+              label={`${A} length`} value={`${box.dims[a]} mm`}
+              min={20} max={Math.max(sizeMax, box.dims[a])} step={5} currentValue={box.dims[a]}
+              onChange={(v) => onChange({ dimensions: withAxis(box.dims, a, v) })} disabled={disabled}
+              hint={a === 2 ? 'Independent box extents in millimetres' : undefined}
+            />
+          ))
+        )}
       </section>
 
       {/* ── Cell Topology ───────────────────────────────────────── */}
@@ -102,31 +228,71 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
           <span className="text-sm font-semibold uppercase tracking-wider">Cell Topology</span>
         </div>
 
-        {/* Cells per axis — the primary printability lever */}
+        {/* Surface family */}
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-neutral-400">
-            <span>Cells per axis</span>
-            <span className="font-mono">{cellCount}</span>
+            <span>Surface</span>
           </div>
-          <input
-            type="range" min={1} max={8} step={1}
-            value={cellCount}
-            onChange={(e) => onChange({ cellSize: params.size / parseInt(e.target.value) })}
+          <select
+            value={surfaceType}
+            onChange={(e) => onChange({ surfaceType: e.target.value as GenParams['surfaceType'] })}
             disabled={disabled}
-            className="w-full h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
-          />
-          <p className="text-[10px] text-neutral-500">
-            Integer cell count — cells always fit exactly, creating clean face ports.
-            <br/>
-            <span className="text-neutral-400">Actual cell size: </span>
-            <span className="font-mono text-cyan-500/80">{actualCellMM.toFixed(1)} mm</span>
-          </p>
+            className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1.5 text-sm text-neutral-200 disabled:opacity-40"
+          >
+            {SURFACE_TYPES.map(s => (
+              <option key={s.id} value={s.id}>{s.label}</option>
+            ))}
+          </select>
+          <p className="text-[10px] text-neutral-500">{surfaceInfo.hint}</p>
         </div>
 
+        {/* Cells per axis — the primary printability lever */}
+        {!boxMode ? (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-neutral-400">
+              <span>Cells per axis</span>
+              <span className="font-mono">{cellCount}</span>
+            </div>
+            <input
+              type="range" min={1} max={8} step={1}
+              value={cellCount}
+              onChange={(e) => onChange({ cellSize: params.size / parseInt(e.target.value) })}
+              disabled={disabled}
+              className="w-full h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
+            />
+            <p className="text-[10px] text-neutral-500">
+              Integer cell count — cells always fit exactly, creating clean face ports.
+              <br/>
+              <span className="text-neutral-400">Actual cell size: </span>
+              <span className="font-mono text-cyan-500/80">{box.cellSizes[0].toFixed(1)} mm</span>
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {AXES.map((A, a) => (
+              <Slider
+                key={A}
+                label={`Cells along ${A}`} value={box.cellCounts[a]}
+                min={1} max={16} step={1} currentValue={box.cellCounts[a]}
+                onChange={(n) => onChange({ cellSizes: withAxis(box.cellSizes, a, box.dims[a] / n) })}
+                disabled={disabled}
+              />
+            ))}
+            <p className="text-[10px] text-neutral-500">
+              Each axis snaps to whole cells — stretch or compress cells along the flow direction.
+              <br/>
+              <span className="text-neutral-400">Actual cell size: </span>
+              <span className="font-mono text-cyan-500/80">
+                {box.cellSizes.map(c => c.toFixed(1)).join(' × ')} mm
+              </span>
+            </p>
+          </div>
+        )}
+
         {/* Wall density */}
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-neutral-400">
-            <span>Wall density</span>
+            <span>{graded ? `Wall density (${startLabel})` : 'Wall density'}</span>
             <span className="font-mono">{params.wallThickness.toFixed(2)}</span>
           </div>
           <input
@@ -137,10 +303,66 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
             className="w-full h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
           />
           <p className="text-[10px] text-neutral-500">
-            Gyroid isovalue threshold — higher = thicker solid walls, narrower channels.
+            TPMS isovalue threshold — higher = thicker solid walls, narrower channels.
           </p>
         </div>
 
+        {/* Wall gradient */}
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-neutral-400">
+            <span>Density gradient</span>
+          </div>
+          <div className="flex rounded-md overflow-hidden border border-neutral-700 text-xs font-medium">
+            {GRADIENT_MODES.map(m => (
+              <button
+                key={m.id}
+                onClick={() => onChange({
+                  gradientMode: m.id,
+                  wallThicknessEnd: params.wallThicknessEnd ?? params.wallThickness,
+                })}
+                disabled={disabled}
+                className={`flex-1 py-1.5 transition-colors disabled:opacity-40 ${
+                  gradientMode === m.id
+                    ? 'bg-cyan-700 text-white'
+                    : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          {gradientMode === 'linear' && (
+            <div className="flex gap-1 text-xs font-mono">
+              {(['x', 'y', 'z'] as Axis[]).map(a => (
+                <button
+                  key={a}
+                  onClick={() => onChange({ gradientAxis: a })}
+                  disabled={disabled}
+                  className={`flex-1 py-1 rounded border transition-colors disabled:opacity-40 ${
+                    gradientAxis === a
+                      ? 'border-cyan-600 text-cyan-300 bg-cyan-900/30'
+                      : 'border-neutral-700 text-neutral-500 hover:text-neutral-300'
+                  }`}
+                >
+                  {a.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {graded && (
+            <Slider
+              label={`Wall density (${endLabel})`}
+              value={(params.wallThicknessEnd ?? params.wallThickness).toFixed(2)}
+              min={0.10} max={0.80} step={0.05}
+              currentValue={params.wallThicknessEnd ?? params.wallThickness}
+              onChange={(v) => onChange({ wallThicknessEnd: v })} disabled={disabled}
+              hint={`Isovalue blends from ${startLabel} to ${endLabel}.`}
+            />
+          )}
+        </div>
+
         {/* Printability summary */}
         <div className={`rounded-md border px-3 py-2 space-y-1 text-[11px] ${
           overallOk ? 'border-neutral-700 bg-neutral-800/40' : 'border-yellow-700/40 bg-yellow-900/10'
@@ -154,20 +376,38 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
             </span>
           </div>
           <div className="flex justify-between">
-            <span className="text-neutral-500">Min wall thickness</span>
+            <span className="text-neutral-500">{graded ? 'Wall thickness' : 'Min wall thickness'}</span>
             <span className={`font-mono ${statusColor[wStat]}`}>
-              {statusDot[wStat]} {wallMM.toFixed(1)} mm
+              {statusDot[wStat]} {fmtRange(wallMinMM, wallMaxMM)}
             </span>
           </div>
           <div className="flex justify-between">
-            <span className="text-neutral-500">Max channel span</span>
+            <span className="text-neutral-500">{graded ? 'Channel span' : 'Max channel span'}</span>
             <span className={`font-mono ${statusColor[sStat]}`}>
-              {statusDot[sStat]} {spanMM.toFixed(1)} mm
+              {statusDot[sStat]} {fmtRange(spanMinMM, spanMaxMM)}
             </span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-neutral-500">Part size</span>
+            <span className={`font-mono ${statusColor[fStat]}`}>
+              {statusDot[fStat]} {extent.map(e => e.toFixed(0)).join('×')} mm
+            </span>
+          </div>
+          {fit !== 'fits' && (
+            <p className={`${statusColor[fStat]} leading-tight`}>
+              {fit === 'rotated'
+                ? `Fits the ${profile.buildVolume.join('×')} mm build volume only when laid on another face.`
+                : `Does not fit the ${profile.buildVolume.join('×')} mm build volume.`}
+            </p>
+          )}
           <p className="text-neutral-600 pt-0.5 leading-tight">
-            For clay printing: wall ≥ 3 mm, span ≤ 20 mm is ideal.
+            {profile.name}: wall ≥ {profile.minWall} mm ({(wallMinMM / profile.lineWidth).toFixed(1)} lines
+            at the thinnest), span ≤ {profile.maxSpan} mm is ideal.
             Increase cells or wall density to improve.
+            {profile.material.shrinkage > 0 && (
+              <> {profile.material.name} shrinks {profile.material.shrinkage}%: scale by ×{shrinkScale.toFixed(3)} to
+              finish at size.</>
+            )}
           </p>
         </div>
       </section>
@@ -179,47 +419,134 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
           <span className="text-sm font-semibold uppercase tracking-wider">Structure</span>
         </div>
 
-        {/* Mode toggle */}
-        <div className="flex rounded-md overflow-hidden border border-neutral-700 text-sm font-medium">
-          <button
-            onClick={() => onChange({ useFrame: false })}
-            disabled={disabled}
-            className={`flex-1 py-2 transition-colors disabled:opacity-40 ${
-              !params.useFrame
-                ? 'bg-cyan-700 text-white'
-                : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
-            }`}
-          >
-            Shell
-          </button>
-          <button
-            onClick={() => onChange({ useFrame: true })}
-            disabled={disabled}
-            className={`flex-1 py-2 transition-colors disabled:opacity-40 ${
-              params.useFrame
-                ? 'bg-cyan-700 text-white'
-                : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
-            }`}
-          >
-            Frame
-          </button>
+        {/* Envelope shape */}
+        <div className="flex rounded-md overflow-hidden border border-neutral-700 text-xs font-medium">
+          {ENVELOPES.map(e => (
+            <button
+              key={e.id}
+              onClick={() => onChange({ envelope: e.id })}
+              disabled={disabled}
+              className={`flex-1 py-1.5 transition-colors disabled:opacity-40 ${
+                envelope === e.id
+                  ? 'bg-cyan-700 text-white'
+                  : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+              }`}
+            >
+              {e.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-neutral-500">
+          <span>Envelope volume</span>
+          <span className="font-mono">{envelopeCm3.toFixed(1)} cm³</span>
         </div>
 
+        {/* Mode toggle (edge-beam frames only exist for the box) */}
+        {envelope === 'box' && (
+          <div className="flex rounded-md overflow-hidden border border-neutral-700 text-sm font-medium">
+            <button
+              onClick={() => onChange({ useFrame: false })}
+              disabled={disabled}
+              className={`flex-1 py-2 transition-colors disabled:opacity-40 ${
+                !params.useFrame
+                  ? 'bg-cyan-700 text-white'
+                  : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+              }`}
+            >
+              Shell
+            </button>
+            <button
+              onClick={() => onChange({ useFrame: true })}
+              disabled={disabled}
+              className={`flex-1 py-2 transition-colors disabled:opacity-40 ${
+                params.useFrame
+                  ? 'bg-cyan-700 text-white'
+                  : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+              }`}
+            >
+              Frame
+            </button>
+          </div>
+        )}
+
         {/* Shell options */}
-        {!params.useFrame && (
+        {!frame && (
           <div className="space-y-3">
             <Slider
               label="Shell thickness" value={`${params.shellThickness.toFixed(1)} mm`}
               min={0.5} max={12} step={0.5} currentValue={params.shellThickness}
               onChange={(v) => onChange({ shellThickness: v })} disabled={disabled}
               hint={<>
-                Hollow outer box. Ports open on:{' '}
-                <span className="text-cyan-600/70">Z±→A</span>{' '}
-                <span className="text-orange-600/70">X±→B</span>{' '}
-                <span className="text-neutral-600">Y±→sealed</span>
+                Hollow outer {envelopeInfo.noun}. Ports open on:{' '}
+                <span className="text-cyan-600/70">{portSummary('a')}→A</span>{' '}
+                <span className="text-orange-600/70">{portSummary('b')}→B</span>{' '}
+                {sealedFaces.length > 0 && (
+                  <span className="text-neutral-600">{sealedFaces.map(faceLabel).join(' ')}→sealed</span>
+                )}
               </>}
             />
 
+            {/* Port layout */}
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-neutral-400">
+                <span>Flow arrangement</span>
+              </div>
+              <div className="flex rounded-md overflow-hidden border border-neutral-700 text-xs font-medium">
+                {FLOW_ARRANGEMENTS.map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => onChange({ ports: f.ports })}
+                    disabled={disabled}
+                    className={`flex-1 py-1.5 transition-colors disabled:opacity-40 ${
+                      arrangement === f.id
+                        ? 'bg-cyan-700 text-white'
+                        : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+                    }`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+              {(['a', 'b'] as Channel[]).flatMap(channel => (['inlet', 'outlet'] as const).map(role => {
+                const spec = ports[channel][role];
+                const windowId = PORT_WINDOWS.find(w => sameWindow(w.window, spec.window))?.id ?? 'custom';
+                return (
+                  <div key={`${channel}-${role}`} className="grid grid-cols-[3.5rem_1fr_1.4fr] gap-1.5 items-center text-[11px]">
+                    <span className={channel === 'a' ? 'text-cyan-400' : 'text-orange-400'}>
+                      {channel.toUpperCase()} {role === 'inlet' ? 'in' : 'out'}
+                    </span>
+                    <select
+                      value={spec.face}
+                      onChange={(e) => setPort(channel, role, { ...spec, face: e.target.value as PortFace })}
+                      disabled={disabled}
+                      className="bg-neutral-800 border border-neutral-700 rounded px-1 py-1 text-neutral-200 disabled:opacity-40"
+                    >
+                      {PORT_FACES.map(f => <option key={f} value={f}>{faceLabel(f)}</option>)}
+                    </select>
+                    <select
+                      value={windowId}
+                      onChange={(e) => setPort(channel, role, {
+                        ...spec, window: PORT_WINDOWS.find(w => w.id === e.target.value)?.window,
+                      })}
+                      disabled={disabled}
+                      className="bg-neutral-800 border border-neutral-700 rounded px-1 py-1 text-neutral-200 disabled:opacity-40"
+                    >
+                      {PORT_WINDOWS.map(w => <option key={w.id} value={w.id}>{w.label}</option>)}
+                      {windowId === 'custom' && <option value="custom">Custom</option>}
+                    </select>
+                  </div>
+                );
+              }))}
+              {portsOverlap(params) && (
+                <p className="text-[10px] text-orange-500 leading-tight">
+                  Channel A and B ports overlap on the same face — the two fluids will mix there.
+                </p>
+              )}
+              <p className="text-[10px] text-neutral-600 leading-tight">
+                Windows are halves/centre of the face along its u/v axes (X: Y, Z · Y: Z, X · Z: X, Y).
+              </p>
+            </div>
+
             {/* Make Manifold (only relevant in shell mode) */}
             <div className="space-y-2">
               <button
@@ -245,11 +572,86 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
                   : 'Export with port openings for direct heat-exchanger use.'}
               </p>
             </div>
+
+            {/* Inlet/outlet headers (box envelope only) */}
+            {envelope === 'box' && (
+              <div className="space-y-3">
+                <button
+                  onClick={() => onChange({ headers: !params.headers })}
+                  disabled={disabled}
+                  className={`w-full flex items-center justify-between px-3 py-2.5 rounded-md border text-sm font-medium transition-colors disabled:opacity-40 ${
+                    params.headers
+                      ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300'
+                      : 'bg-neutral-800/60 border-neutral-700 text-neutral-400 hover:border-neutral-600 hover:text-neutral-300'
+                  }`}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${params.headers ? 'bg-cyan-400' : 'bg-neutral-600'}`} />
+                    Headers &amp; fittings
+                  </span>
+                  <span className="text-xs font-normal opacity-70">
+                    {params.headers ? 'on' : 'off'}
+                  </span>
+                </button>
+
+                {params.headers && (
+                  <>
+                    <Slider
+                      label="Plenum depth" value={`${(params.headerDepth ?? 15).toFixed(0)} mm`}
+                      min={4} max={40} step={1} currentValue={params.headerDepth ?? 15}
+                      onChange={(v) => onChange({ headerDepth: v })} disabled={disabled}
+                      hint="Hollow header box over each port face, same wall as the shell."
+                    />
+                    <div className="flex rounded-md overflow-hidden border border-neutral-700 text-xs font-medium">
+                      {FITTINGS.map(f => (
+                        <button
+                          key={f.id}
+                          onClick={() => onChange({ fitting: f.id })}
+                          disabled={disabled}
+                          className={`flex-1 py-1.5 transition-colors disabled:opacity-40 ${
+                            (params.fitting ?? 'stub') === f.id
+                              ? 'bg-cyan-700 text-white'
+                              : 'bg-neutral-800 text-neutral-400 hover:text-neutral-200'
+                          }`}
+                        >
+                          {f.label}
+                        </button>
+                      ))}
+                    </div>
+                    <Slider
+                      label="Fitting diameter" value={`${(params.fittingDiameter ?? 20).toFixed(0)} mm`}
+                      min={6} max={60} step={1} currentValue={params.fittingDiameter ?? 20}
+                      onChange={(v) => onChange({ fittingDiameter: v })} disabled={disabled}
+                      hint="Tube outer diameter; clamped to fit the face."
+                    />
+                    <Slider
+                      label="Fitting length" value={`${(params.fittingLength ?? 20).toFixed(0)} mm`}
+                      min={5} max={60} step={1} currentValue={params.fittingLength ?? 20}
+                      onChange={(v) => onChange({ fittingLength: v })} disabled={disabled}
+                    />
+                    {params.fitting === 'flange' && (
+                      <Slider
+                        label="Bolt holes" value={params.boltCount ?? 4}
+                        min={3} max={12} step={1} currentValue={params.boltCount ?? 4}
+                        onChange={(v) => onChange({ boltCount: v })} disabled={disabled}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            )}
           </div>
         )}
 
+        <Slider
+          label="Wall fillet" value={`${(params.filletRadius ?? 0).toFixed(1)} mm`}
+          min={0} max={5} step={0.5} currentValue={params.filletRadius ?? 0}
+          onChange={(v) => onChange({ filletRadius: v })} disabled={disabled}
+          hint="Smooth blend where the TPMS walls meet the shell/frame. 0 = sharp junction."
+        />
+
         {/* Frame options */}
-        {params.useFrame && (
+        {frame && (
           <div className="space-y-3">
             <Slider
               label="Beam width" value={`${params.frameBeamWidth.toFixed(1)} mm`}
@@ -261,7 +663,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
             {/* Frame diagram */}
             <div className="rounded-md border border-neutral-800 bg-neutral-800/20 px-3 py-2 text-[10px] text-neutral-500 leading-snug space-y-0.5">
               <p className="text-neutral-400 font-medium">Frame geometry</p>
-              <p>• 12 solid beams along all cube edges</p>
+              <p>• 12 solid beams along all box edges</p>
               <p>• 8 solid corner blocks where beams meet</p>
               <p>• 6 open faces (no shell) — both channels exit freely</p>
               <p className="text-neutral-600 pt-1">Make Manifold is not applicable in Frame mode — attach external manifolds to direct flow.</p>
@@ -279,12 +681,14 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
 
         <Slider
           label="Resolution" value={`${params.resolution}³`}
-          min={30} max={150} step={5} currentValue={params.resolution}
+          min={30} max={400} step={5} currentValue={params.resolution}
           onChange={(v) => onChange({ resolution: v })} disabled={disabled}
           hint={
-            params.resolution > 90
+            params.resolution > 250
+              ? <span className="text-orange-500">Very high resolution — millions of faces; decimate before export.</span>
+              : params.resolution > 90
               ? <span className="text-orange-500">High resolution — generation may be slow.</span>
-              : 'Voxel density per axis.'
+              : 'Grid samples along the longest edge.'
           }
         />
 
@@ -292,7 +696,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
           label="Smoothing passes" value={params.smoothingIterations ?? 0}
           min={0} max={30} step={1} currentValue={params.smoothingIterations ?? 0}
           onChange={(v) => onChange({ smoothingIterations: v })} disabled={disabled}
-          hint="Taubin smoothing iterations — reduces voxel staircasing without shrinking the mesh."
+          hint="Optional Taubin smoothing — vertices already sit on the true isosurface, so 0 keeps sharp shell edges."
         />
       </section>
 
@@ -302,7 +706,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
           <Activity size={15} />
           <span className="text-sm font-semibold uppercase tracking-wider">Channel layout</span>
         </div>
-        {params.useFrame ? (
+        {frame ? (
           <div className="rounded-md border border-neutral-800 bg-neutral-800/30 px-3 py-2 text-[11px] space-y-1">
             <div className="flex items-center gap-2">
               <span className="inline-block w-2 h-2 rounded-full bg-cyan-400"></span>
@@ -318,21 +722,25 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ params, onChange, di
           </div>
         ) : (
           <div className="rounded-md border border-neutral-800 bg-neutral-800/30 px-3 py-2 text-[11px] space-y-1">
-            <div className="flex items-center gap-2">
-              <span className="inline-block w-2 h-2 rounded-full bg-cyan-400"></span>
-              <span className="text-neutral-300">Channel A — exits Z faces (top / bottom)</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="inline-block w-2 h-2 rounded-full bg-orange-400"></span>
-              <span className="text-neutral-300">Channel B — exits X faces (left / right)</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="inline-block w-2 h-2 rounded-full bg-neutral-500"></span>
-              <span className="text-neutral-500">Y faces — sealed (no port)</span>
-            </div>
-            <p className="text-neutral-600 pt-1 leading-tight">
-              Print with Z-axis vertical. Channel A tunnels are vertical (no overhang). Channel B tunnels are horizontal — keep cell count high for smaller spans.
-            </p>
+            {(['a', 'b'] as Channel[]).map(c => (
+              <div key={c} className="flex items-center gap-2">
+                <span className={`inline-block w-2 h-2 rounded-full ${c === 'a' ? 'bg-cyan-400' : 'bg-orange-400'}`}></span>
+                <span className="text-neutral-300">
+                  Channel {c.toUpperCase()} — in {faceLabel(ports[c].inlet.face)}, out {faceLabel(ports[c].outlet.face)}
+                </span>
+              </div>
+            ))}
+            {sealedFaces.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="inline-block w-2 h-2 rounded-full bg-neutral-500"></span>
+                <span className="text-neutral-500">{sealedFaces.map(faceLabel).join(', ')} — sealed (no port)</span>
+              </div>
+            )}
+            {arrangement === 'crossflow' && (
+              <p className="text-neutral-600 pt-1 leading-tight">
+                Print with Z-axis vertical. Channel A tunnels are vertical (no overhang). Channel B tunnels are horizontal — keep cell count high for smaller spans.
+              </p>
+            )}
           </div>
         )}
       </section>
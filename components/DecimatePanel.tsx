@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Shrink } from 'lucide-react';
+import { DecimateOptions, DecimationResult } from '../utils/decimate';
+
+interface DecimatePanelProps {
+  faceCount: number;                  // faces of the generated (full) mesh
+  result: DecimationResult | null;
+  progress: number | null;            // null when idle
+  disabled: boolean;
+  onApply: (options: DecimateOptions) => void;
+  onReset: () => void;
+}
+
+type Mode = 'faces' | 'error';
+
+const Row: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className="text-neutral-300">{value}</span>
+  </div>
+);
+
+export const DecimatePanel: React.FC<DecimatePanelProps> = ({
+  faceCount, result, progress, disabled, onApply, onReset,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>('faces');
+  const [percent, setPercent] = useState(20);
+  const [maxError, setMaxError] = useState(0.05);
+  const busy = progress !== null;
+  const targetFaces = Math.max(4, Math.round((faceCount * percent) / 100));
+
+  const apply = () => onApply(mode === 'faces' ? { targetFaces } : { maxError });
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Decimation</span>
+        <span className="ml-auto flex items-center gap-1 text-neutral-500">
+          {result && <span className="text-cyan-300">{(result.facesAfter / 1000).toFixed(0)}k</span>}
+          <Shrink size={13} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="grid grid-cols-2 gap-1">
+            {([['faces', 'Face count'], ['error', 'Tolerance']] as [Mode, string][]).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-2 py-1 text-[11px] rounded border transition-colors ${
+                  mode === id
+                    ? 'bg-cyan-900/40 border-cyan-700 text-cyan-200'
+                    : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:border-neutral-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'faces' ? (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[11px] text-neutral-400">
+                <span>Keep {percent}%</span>
+                <span className="text-neutral-300">{targetFaces.toLocaleString()} faces</span>
+              </div>
+              <input
+                type="range" min={2} max={90} step={1}
+                value={percent}
+                onChange={(e) => setPercent(Number(e.target.value))}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+          ) : (
+            <label className="flex justify-between items-center text-[11px] text-neutral-400 gap-2">
+              <span>Max error (mm)</span>
+              <input
+                type="number" min={0.001} step={0.01}
+                value={maxError}
+                onChange={(e) => setMaxError(Math.max(0.001, Number(e.target.value) || 0.001))}
+                className="w-20 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-right text-neutral-200"
+              />
+            </label>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={apply}
+              disabled={disabled || busy || faceCount === 0}
+              className="px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+            >
+              {busy ? `Decimating ${Math.round(progress ?? 0)}%` : 'Decimate'}
+            </button>
+            <button
+              onClick={onReset}
+              disabled={busy || !result}
+              className="px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+            >
+              Full mesh
+            </button>
+          </div>
+
+          {result && (
+            <div className="space-y-1 pt-1 border-t border-neutral-800">
+              <Row label="Faces before" value={result.facesBefore.toLocaleString()} />
+              <Row
+                label="Faces after"
+                value={`${result.facesAfter.toLocaleString()} (${((100 * result.facesAfter) / result.facesBefore).toFixed(0)}%)`}
+              />
+              <Row label="Max deviation" value={`${result.maxDeviation.toFixed(3)} mm`} />
+              <p className="text-[10px] text-neutral-600 leading-tight pt-1">
+                Exports and the integrity report use the decimated mesh.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
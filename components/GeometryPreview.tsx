@@ -1,16 +1,192 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { Html } from '@react-three/drei';
-import { MeshData, GenParams } from '../types';
+import { useThree } from '@react-three/fiber';
+import { Html, TransformControls } from '@react-three/drei';
+import { Axis, MeshData, GenParams, Vec3 } from '../types';
+import { resolveBox } from '../utils/box';
+import { headerReach } from '../utils/headers';
+import { usesFrame } from '../utils/envelope';
+import { faceAxis, faceLabel, faceSign, PORT_FACES, resolvePorts } from '../utils/ports';
+import { SECTION_AXES, SectionPlanes, sectionRange } from '../utils/sections';
+import { Toolpath } from '../utils/slicer';
 
 interface GeometryPreviewProps {
   meshData: MeshData | null;
   params: GenParams;
+  /** Vertex index pairs to draw as highlighted line segments. */
+  problemEdges?: Uint32Array;
+  /** Per-vertex RGB (0–1) replacing the flat material colour, e.g. a heatmap. */
+  colors?: Float32Array;
+  /** Build direction to mark with an arrow under the part. */
+  buildUp?: Vec3;
+  sections?: SectionPlanes;
+  /** Section plane carrying the drag gizmo. */
+  activeSection?: Axis | null;
+  onSectionMove?: (axis: Axis, offset: number) => void;
+  /** Sliced perimeters to draw over a see-through part, up to layer `toolpathLayer`. */
+  toolpath?: Toolpath;
+  toolpathLayer?: number;
+  /** Filled with a function that renders the current view to a PNG data URL. */
+  captureRef?: React.MutableRefObject<(() => string) | null>;
 }
 
-export const GeometryPreview: React.FC<GeometryPreviewProps> = ({ meshData, params }) => {
+const CHANNEL_COLOR = { a: 'rgba(34,211,238,0.85)', b: 'rgba(251,146,60,0.85)' };
+const SEALED_COLOR = 'rgba(163,163,163,0.7)';
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+// Cut faces, distinct from the part's green
+const CAP_COLOR = '#f43f5e';
+
+// Stencil passes of a section cap: back faces beyond the plane count +1,
+// front faces −1, so the stencil is non-zero exactly where the plane lies
+// inside the solid (three.js clipping-stencil technique; needs a closed mesh)
+const stencilMaterial = (plane: THREE.Plane, side: THREE.Side, op: THREE.StencilOp) =>
+  new THREE.MeshBasicMaterial({
+    side,
+    clippingPlanes: [plane],
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    stencilFail: op,
+    stencilZFail: op,
+    stencilZPass: op,
+  });
+
+interface SectionCapProps {
+  geometry: THREE.BufferGeometry;
+  plane: THREE.Plane;
+  others: THREE.Plane[];   // the cap is clipped by the other planes
+  order: number;
+  size: number;
+}
+
+const SectionCap: React.FC<SectionCapProps> = ({ geometry, plane, others, order, size }) => {
+  const back = useMemo(() => stencilMaterial(plane, THREE.BackSide, THREE.IncrementWrapStencilOp), [plane]);
+  const front = useMemo(() => stencilMaterial(plane, THREE.FrontSide, THREE.DecrementWrapStencilOp), [plane]);
+  const capRef = useRef<THREE.Mesh>(null);
+
+  // Keep the cap on the plane, facing the cut-away side
+  useEffect(() => {
+    const cap = capRef.current;
+    if (!cap) return;
+    plane.coplanarPoint(cap.position);
+    cap.lookAt(cap.position.x - plane.normal.x, cap.position.y - plane.normal.y, cap.position.z - plane.normal.z);
+  });
+
+  return (
+    <>
+      <mesh geometry={geometry} material={back} renderOrder={order} />
+      <mesh geometry={geometry} material={front} renderOrder={order} />
+      <mesh
+        ref={capRef}
+        renderOrder={order + 0.1}
+        onAfterRender={(renderer) => renderer.clearStencil()}
+      >
+        <planeGeometry args={[size, size]} />
+        <meshStandardMaterial
+          color={CAP_COLOR}
+          roughness={0.6}
+          metalness={0.1}
+          clippingPlanes={others}
+          stencilWrite
+          stencilRef={0}
+          stencilFunc={THREE.NotEqualStencilFunc}
+          stencilFail={THREE.ReplaceStencilOp}
+          stencilZFail={THREE.ReplaceStencilOp}
+          stencilZPass={THREE.ReplaceStencilOp}
+        />
+      </mesh>
+    </>
+  );
+};
+
+interface FaceLabel {
+  key: string;
+  position: Vec3;
+  text: string;
+  color: string;
+}
+
+// One label per port (at its window centre) and per sealed face, placed
+// 8 mm beyond the face — and beyond any header and fitting on that axis.
+function faceLabels(params: GenParams): FaceLabel[] {
+  const half = resolveBox(params).half;
+  const reach = AXES.map((axis, a) => half[a] + headerReach(params, axis) + 8);
+  // Point beyond face (axis, sign) at window coordinates (cu, cv)
+  const at = (axis: number, sign: number, cu = 0, cv = 0): Vec3 => {
+    const p: Vec3 = [0, 0, 0];
+    const u = (axis + 1) % 3, v = (axis + 2) % 3;
+    p[axis] = sign * reach[axis];
+    p[u] = cu * half[u];
+    p[v] = cv * half[v];
+    return p;
+  };
+
+  if (usesFrame(params)) {
+    return PORT_FACES.map(face => ({
+      key: face,
+      position: at(faceAxis(face), faceSign(face)),
+      text: `${faceLabel(face)}  Open`,
+      color: SEALED_COLOR,
+    }));
+  }
+
+  const ports = resolvePorts(params);
+  const labels: FaceLabel[] = ports.map(p => ({
+    key: `${p.channel}-${p.role}`,
+    position: at(p.axis, p.sign, (p.window[0] + p.window[1]) / 2, (p.window[2] + p.window[3]) / 2),
+    text: `${faceLabel(p.face)}  ${p.channel.toUpperCase()} ${p.role}`,
+    color: CHANNEL_COLOR[p.channel],
+  }));
+  for (const face of PORT_FACES) {
+    if (ports.some(p => p.face === face)) continue;
+    labels.push({ key: face, position: at(faceAxis(face), faceSign(face)), text: `${faceLabel(face)}  Sealed`, color: SEALED_COLOR });
+  }
+  return labels;
+}
+
+export const GeometryPreview: React.FC<GeometryPreviewProps> = ({
+  meshData, params, problemEdges, colors, buildUp, sections, activeSection, onSectionMove,
+  toolpath, toolpathLayer = Infinity, captureRef,
+}) => {
   const meshRef = useRef<THREE.Mesh>(null);
-  const half = params.size / 2;
+  const handleRef = useRef<THREE.Group>(null);
+  const labels = faceLabels(params);
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    gl.localClippingEnabled = true;
+  }, [gl]);
+
+  useEffect(() => {
+    if (!captureRef) return;
+    // Render right before reading so the drawing buffer is still intact
+    captureRef.current = () => {
+      gl.render(scene, camera);
+      return gl.domElement.toDataURL('image/png');
+    };
+    return () => { captureRef.current = null; };
+  }, [captureRef, gl, scene, camera]);
+
+  // One plane object per axis, updated in place; material clipping lists
+  // only change when planes are switched on or off
+  const axisPlanes = useMemo(() => AXES.map(() => new THREE.Plane()), []);
+  const enabledKey = SECTION_AXES.filter(a => sections?.[a].enabled).join();
+  const activePlanes = useMemo(
+    () => AXES.flatMap((a, i) => (sections?.[a].enabled ? [axisPlanes[i]] : [])),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [enabledKey, axisPlanes]);
+  AXES.forEach((a, i) => {
+    const plane = sections?.[a];
+    if (!plane) return;
+    // Keep x ≤ offset: normal −x, constant offset (flipped: the mirror image)
+    const s = plane.flip ? 1 : -1;
+    axisPlanes[i].normal.set(i === 0 ? s : 0, i === 1 ? s : 0, i === 2 ? s : 0);
+    axisPlanes[i].constant = -s * plane.offset;
+  });
+  const capSize = 2.5 * Math.max(...AXES.map(a => sectionRange(params, a)));
 
   const geometry = useMemo(() => {
     if (!meshData || meshData.vertices.length === 0) return null;
@@ -28,63 +204,155 @@ export const GeometryPreview: React.FC<GeometryPreviewProps> = ({ meshData, para
     return geom;
   }, [meshData]);
 
+  // Colours come and go without rebuilding the geometry (before the next frame)
+  const colored = !!geometry && !!colors && colors.length === geometry.attributes.position.array.length;
+  useLayoutEffect(() => {
+    if (!geometry) return;
+    if (colored) geometry.setAttribute('color', new THREE.BufferAttribute(colors!, 3));
+    else geometry.deleteAttribute('color');
+  }, [geometry, colors, colored]);
+
+  const problemGeometry = useMemo(() => {
+    if (!meshData || !problemEdges || problemEdges.length === 0) return null;
+    const pts = new Float32Array(problemEdges.length * 3);
+    for (let i = 0; i < problemEdges.length; i++) {
+      pts.set(meshData.vertices.subarray(problemEdges[i] * 3, problemEdges[i] * 3 + 3), i * 3);
+    }
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.BufferAttribute(pts, 3));
+    return geom;
+  }, [meshData, problemEdges]);
+
+  // Toolpath loops as line segments at their sampling heights (an open
+  // bead's closing segment collapses to a point).  Layers below the shown
+  // one and the shown one itself are two ranges of one buffer.
+  const toolpathLines = useMemo(() => {
+    if (!toolpath) return null;
+    const { points, loopStart, layerStart, closed, bottom, layerHeight } = toolpath;
+    const pts = new Float32Array(points.length * 3);
+    for (let k = 0; k < layerStart.length - 1; k++) {
+      const z = bottom + (k + 0.5) * layerHeight;
+      for (let l = layerStart[k]; l < layerStart[k + 1]; l++) {
+        const a = loopStart[l], b = loopStart[l + 1];
+        for (let i = a; i < b; i++) {
+          const j = i + 1 < b ? i + 1 : closed[l] ? a : i;
+          pts.set([points[i * 2], points[i * 2 + 1], z, points[j * 2], points[j * 2 + 1], z], i * 6);
+        }
+      }
+    }
+    const position = new THREE.BufferAttribute(pts, 3);
+    const below = new THREE.BufferGeometry();
+    const current = new THREE.BufferGeometry();
+    below.setAttribute('position', position);
+    current.setAttribute('position', position);
+    return { below, current };
+  }, [toolpath]);
+  if (toolpath && toolpathLines) {
+    const { loopStart, layerStart } = toolpath;
+    const k = Math.max(0, Math.min(layerStart.length - 2, toolpathLayer));
+    const from = 2 * loopStart[layerStart[k]], to = 2 * loopStart[layerStart[k + 1]];
+    toolpathLines.below.setDrawRange(0, from);
+    toolpathLines.current.setDrawRange(from, to - from);
+  }
+  const ghost = !!toolpathLines;
+
   return (
     <group>
       {geometry && (
-        <mesh ref={meshRef} geometry={geometry} castShadow receiveShadow>
+        <mesh ref={meshRef} geometry={geometry} castShadow={!ghost} receiveShadow>
           <meshStandardMaterial
-            color="#4ade80"
+            key={`${colored ? 'colors' : 'plain'}${ghost ? '-ghost' : ''}`}
+            color={colored ? '#ffffff' : '#4ade80'}
+            vertexColors={colored}
             roughness={0.3}
             metalness={0.2}
             flatShading={false}
             side={THREE.DoubleSide}
+            transparent={ghost}
+            opacity={ghost ? 0.15 : 1}
+            depthWrite={!ghost}
+            clippingPlanes={activePlanes}
+            clipShadows
           />
         </mesh>
       )}
 
+      {toolpathLines && (
+        <>
+          <lineSegments geometry={toolpathLines.below}>
+            <lineBasicMaterial color="#f59e0b" transparent opacity={0.55} clippingPlanes={activePlanes} />
+          </lineSegments>
+          <lineSegments geometry={toolpathLines.current}>
+            <lineBasicMaterial color="#fef3c7" clippingPlanes={activePlanes} />
+          </lineSegments>
+        </>
+      )}
+
+      {geometry && activePlanes.map((plane, i) => (
+        <SectionCap
+          key={AXES[axisPlanes.indexOf(plane)]}
+          geometry={geometry}
+          plane={plane}
+          others={activePlanes.filter(p => p !== plane)}
+          order={i + 1}
+          size={capSize}
+        />
+      ))}
+
+      {/* Drag handle of the active section plane */}
+      {activeSection && sections?.[activeSection].enabled && onSectionMove && (() => {
+        const a = AXES.indexOf(activeSection);
+        const range = sectionRange(params, activeSection);
+        const position: Vec3 = [0, 0, 0];
+        position[a] = sections[activeSection].offset;
+        return (
+          <>
+            <group ref={handleRef} position={position} />
+            <TransformControls
+              object={handleRef as React.RefObject<THREE.Object3D>}
+              mode="translate"
+              showX={a === 0} showY={a === 1} showZ={a === 2}
+              size={0.8}
+              translationSnap={0.5}
+              onObjectChange={() => {
+                const handle = handleRef.current;
+                if (!handle) return;
+                const offset = Math.min(range, Math.max(-range, handle.position.getComponent(a)));
+                onSectionMove(activeSection, offset);
+              }}
+            />
+          </>
+        );
+      })()}
+
+      {buildUp && (() => {
+        // From below the part's lowest reach, pointing up into it
+        const reach = Math.max(...AXES.map(a => sectionRange(params, a)));
+        const dir = new THREE.Vector3(...buildUp);
+        return (
+          <arrowHelper
+            key={buildUp.join()}
+            args={[dir, dir.clone().multiplyScalar(-(reach + 25)), 20, 0x38bdf8, 6, 4]}
+          />
+        );
+      })()}
+
+      {problemGeometry && (
+        <lineSegments geometry={problemGeometry} renderOrder={1}>
+          <lineBasicMaterial color="#ef4444" depthTest={false} />
+        </lineSegments>
+      )}
+
       {/* Channel face labels */}
-      <Html position={[0, 0, half + 8]} center distanceFactor={200}
-            style={{ pointerEvents: 'none', userSelect: 'none' }}>
-        <div style={{ background: 'rgba(34,211,238,0.85)', color: '#000', padding: '2px 8px',
-                      borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
-          Z+ &nbsp;Channel A
-        </div>
-      </Html>
-      <Html position={[0, 0, -half - 8]} center distanceFactor={200}
-            style={{ pointerEvents: 'none', userSelect: 'none' }}>
-        <div style={{ background: 'rgba(34,211,238,0.85)', color: '#000', padding: '2px 8px',
-                      borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
-          Z− &nbsp;Channel A
-        </div>
-      </Html>
-      <Html position={[half + 8, 0, 0]} center distanceFactor={200}
-            style={{ pointerEvents: 'none', userSelect: 'none' }}>
-        <div style={{ background: 'rgba(251,146,60,0.85)', color: '#000', padding: '2px 8px',
-                      borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
-          X+ &nbsp;Channel B
-        </div>
-      </Html>
-      <Html position={[-half - 8, 0, 0]} center distanceFactor={200}
-            style={{ pointerEvents: 'none', userSelect: 'none' }}>
-        <div style={{ background: 'rgba(251,146,60,0.85)', color: '#000', padding: '2px 8px',
-                      borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
-          X− &nbsp;Channel B
-        </div>
-      </Html>
-      <Html position={[0, half + 8, 0]} center distanceFactor={200}
-            style={{ pointerEvents: 'none', userSelect: 'none' }}>
-        <div style={{ background: 'rgba(163,163,163,0.7)', color: '#000', padding: '2px 8px',
-                      borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
-          Y+ &nbsp;Sealed
-        </div>
-      </Html>
-      <Html position={[0, -half - 8, 0]} center distanceFactor={200}
-            style={{ pointerEvents: 'none', userSelect: 'none' }}>
-        <div style={{ background: 'rgba(163,163,163,0.7)', color: '#000', padding: '2px 8px',
-                      borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
-          Y− &nbsp;Sealed
-        </div>
-      </Html>
+      {labels.map(({ key, position, text, color }) => (
+        <Html key={key} position={position} center distanceFactor={200}
+              style={{ pointerEvents: 'none', userSelect: 'none' }}>
+          <div style={{ background: color, color: '#000', padding: '2px 8px',
+                        borderRadius: 4, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
+            {text}
+          </div>
+        </Html>
+      ))}
     </group>
   );
 };
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { MeshReport } from '../utils/meshIntegrity';
+
+interface IntegrityPanelProps {
+  report: MeshReport | null;
+  checking: boolean;                  // a report for the shown mesh is on its way
+  showProblems: boolean;
+  onShowProblemsChange: (show: boolean) => void;
+}
+
+const Row: React.FC<{ label: string; value: React.ReactNode; bad?: boolean }> = ({ label, value, bad }) => (
+  <div className="flex justify-between text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className={bad ? 'text-red-400 font-medium' : 'text-neutral-300'}>{value}</span>
+  </div>
+);
+
+const fmt = (v: number, digits = 1) => v.toFixed(digits);
+
+export const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ report, checking, showProblems, onShowProblemsChange }) => {
+  const [open, setOpen] = useState(false);
+  const ok = report?.watertight ?? false;
+  const problemCount = report ? report.problemEdges.length / 2 : 0;
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Mesh integrity</span>
+        {checking && <span className="ml-auto text-yellow-400">Checking…</span>}
+        {report && (
+          <span className={`ml-auto flex items-center gap-1 ${ok ? 'text-green-400' : 'text-red-400'}`}>
+            {ok ? <ShieldCheck size={13} /> : <ShieldAlert size={13} />}
+            {ok ? 'Watertight' : 'Issues'}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-1">
+          {!report ? (
+            <p className="text-[11px] text-neutral-500">{checking ? 'Checking the mesh…' : 'No mesh yet.'}</p>
+          ) : (
+            <>
+              <Row label="Boundary edges" value={report.boundaryEdges} bad={report.boundaryEdges > 0} />
+              <Row label="Non-manifold edges" value={report.nonManifoldEdges} bad={report.nonManifoldEdges > 0} />
+              <Row label="Non-manifold vertices" value={report.nonManifoldVertices} bad={report.nonManifoldVertices > 0} />
+              <Row label="Inconsistent winding" value={report.flippedEdges} bad={report.flippedEdges > 0} />
+              <Row label="Degenerate faces" value={report.degenerateFaces} bad={report.degenerateFaces > 0} />
+              <Row label="Components" value={report.components} />
+              <Row label="Euler χ / genus" value={`${report.eulerCharacteristic} / ${report.genus ?? '—'}`} />
+              <Row label="Volume" value={`${fmt(report.volume / 1000, 2)} cm³`} bad={report.volume < 0} />
+              <Row label="Surface area" value={`${fmt(report.area / 100)} cm²`} />
+              <Row
+                label="Bounding box"
+                value={`${report.bboxMax.map((v, a) => fmt(v - report.bboxMin[a])).join(' × ')} mm`}
+              />
+              {problemCount > 0 && (
+                <label className="flex items-center gap-2 pt-1 text-[11px] text-neutral-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showProblems}
+                    onChange={(e) => onShowProblemsChange(e.target.checked)}
+                  />
+                  Highlight {problemCount.toLocaleString()} problem edges
+                </label>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Thermometer } from 'lucide-react';
+import { ExchangerMetrics } from '../types';
+import { MaterialDefaults } from '../utils/printerProfiles';
+
+interface MetricsPanelProps {
+  metrics: ExchangerMetrics | null;
+  material: MaterialDefaults;         // the printer profile's material
+}
+
+const Row: React.FC<{ label: string; a: React.ReactNode; b: React.ReactNode }> = ({ label, a, b }) => (
+  <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className="text-cyan-300 text-right w-14">{a}</span>
+    <span className="text-orange-300 text-right w-14">{b}</span>
+  </div>
+);
+
+const Value: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className="text-neutral-300">{value}</span>
+  </div>
+);
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, material }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Exchanger metrics</span>
+        <Thermometer size={13} className="ml-auto text-neutral-500" />
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          {!metrics ? (
+            <p className="text-[11px] text-neutral-500">No mesh yet.</p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Row label="" a="A" b="B" />
+                <Row
+                  label="Fluid volume (cm³)"
+                  a={(metrics.channelVolume.a / 1000).toFixed(1)}
+                  b={(metrics.channelVolume.b / 1000).toFixed(1)}
+                />
+                <Row
+                  label="Wetted area (cm²)"
+                  a={(metrics.wettedArea.a / 100).toFixed(0)}
+                  b={(metrics.wettedArea.b / 100).toFixed(0)}
+                />
+                <Row
+                  label="Hydraulic dia. (mm)"
+                  a={metrics.hydraulicDiameter.a.toFixed(2)}
+                  b={metrics.hydraulicDiameter.b.toFixed(2)}
+                />
+              </div>
+
+              <div className="space-y-1 pt-1 border-t border-neutral-800">
+                <Value label="Porosity" value={`${(metrics.porosity * 100).toFixed(1)} %`} />
+                <Value label="Solid volume" value={`${(metrics.solidVolume / 1000).toFixed(1)} cm³`} />
+                <Value label="Material" value={`${material.name} (${material.density} g/cm³)`} />
+                <Value label="Mass" value={`${((metrics.solidVolume / 1000) * material.density).toFixed(0)} g`} />
+              </div>
+
+              <div className="space-y-1 pt-1 border-t border-neutral-800">
+                <Row label="Open port area (mm²)" a="A" b="B" />
+                {metrics.portArea.map(({ face, open: o }) => (
+                  <Row
+                    key={face}
+                    label={face}
+                    a={o.a > 0 ? o.a.toFixed(0) : '—'}
+                    b={o.b > 0 ? o.b.toFixed(0) : '—'}
+                  />
+                ))}
+                <p className="text-[10px] text-neutral-600 leading-tight pt-1">
+                  Port areas are projected along each axis.
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
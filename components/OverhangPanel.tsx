@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ArrowUpToLine, ChevronDown, ChevronRight } from 'lucide-react';
+import { PortFace, Vec3 } from '../types';
+import { PORT_FACES, faceLabel } from '../utils/ports';
+import { OverhangReport, OverhangSettings, overhangGradient } from '../utils/overhang';
+
+interface OverhangPanelProps {
+  settings: OverhangSettings;
+  onChange: (settings: OverhangSettings) => void;
+  enabled: boolean;                   // analysis and heatmap on
+  onEnabledChange: (enabled: boolean) => void;
+  report: OverhangReport | null;      // null while disabled or without a mesh
+  /** Every axis direction, once requested for the current mesh (see bestAxisOrientation). */
+  orientations: { best: PortFace; reports: Record<PortFace, OverhangReport> } | null;
+  disabled: boolean;
+  onSuggest: () => void;
+}
+
+const Row: React.FC<{ label: string; value: React.ReactNode; bad?: boolean }> = ({ label, value, bad }) => (
+  <div className="flex justify-between text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className={bad ? 'text-red-400 font-medium' : 'text-neutral-300'}>{value}</span>
+  </div>
+);
+
+const percent = (part: number, whole: number) => `${whole > 0 ? ((100 * part) / whole).toFixed(1) : '0.0'}%`;
+
+export const OverhangPanel: React.FC<OverhangPanelProps> = ({
+  settings, onChange, enabled, onEnabledChange, report, orientations, disabled, onSuggest,
+}) => {
+  const [open, setOpen] = useState(false);
+  const { direction, custom, criticalAngle } = settings;
+  const setCustom = (axis: number, value: number) =>
+    onChange({ ...settings, custom: custom.map((c, i) => (i === axis ? value : c)) as Vec3 });
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Overhangs</span>
+        <span className="ml-auto flex items-center gap-1 text-neutral-500">
+          {report && (
+            <span className={report.unsupportedArea > 0 ? 'text-yellow-400' : 'text-green-400'}>
+              {percent(report.unsupportedArea, report.totalArea)}
+            </span>
+          )}
+          <ArrowUpToLine size={13} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          <label className="flex items-center gap-2 text-[11px] text-neutral-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={enabled}
+              disabled={disabled}
+              onChange={(e) => onEnabledChange(e.target.checked)}
+            />
+            Analyze and show heatmap
+          </label>
+
+          <div className="space-y-1">
+            <span className="text-[11px] text-neutral-400">Build direction (up)</span>
+            <div className="grid grid-cols-4 gap-1">
+              {[...PORT_FACES, 'custom' as const].map(id => (
+                <button
+                  key={id}
+                  onClick={() => onChange({ ...settings, direction: id })}
+                  className={`px-1 py-1 text-[11px] rounded border transition-colors ${
+                    direction === id
+                      ? 'bg-cyan-900/40 border-cyan-700 text-cyan-200'
+                      : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:border-neutral-600'
+                  } ${id === 'custom' ? 'col-span-2' : ''}`}
+                >
+                  {id === 'custom' ? 'Custom' : faceLabel(id)}
+                </button>
+              ))}
+            </div>
+            {direction === 'custom' && (
+              <div className="grid grid-cols-3 gap-1">
+                {custom.map((c, i) => (
+                  <input
+                    key={i}
+                    type="number" step={0.1}
+                    value={c}
+                    onChange={(e) => setCustom(i, Number(e.target.value) || 0)}
+                    title={`${'XYZ'[i]} component`}
+                    className="w-full bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-right text-[11px] text-neutral-200"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-[11px] text-neutral-400">
+              <span>Critical angle</span>
+              <span className="text-neutral-300">{criticalAngle}° from vertical</span>
+            </div>
+            <input
+              type="range" min={15} max={75} step={1}
+              value={criticalAngle}
+              onChange={(e) => onChange({ ...settings, criticalAngle: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          {report && (
+            <div className="space-y-1 pt-1 border-t border-neutral-800">
+              <Row
+                label="Unsupported area"
+                value={`${report.unsupportedArea.toFixed(0)} mm² (${percent(report.unsupportedArea, report.totalArea)})`}
+                bad={report.unsupportedArea > 0}
+              />
+              <Row label="Unsupported faces" value={report.unsupportedFaces.toLocaleString()} />
+              <Row label="Steepest overhang" value={`${report.maxAngle.toFixed(0)}°`} bad={report.maxAngle > criticalAngle} />
+              <Row label="On the build plate" value={`${report.bedArea.toFixed(0)} mm²`} />
+              <div className="space-y-0.5 pt-1">
+                <div className="h-2 rounded" style={{ background: overhangGradient(criticalAngle) }} />
+                <div className="relative h-3 text-[10px] text-neutral-500">
+                  <span className="absolute left-0">0°</span>
+                  <span className="absolute -translate-x-1/2" style={{ left: `${(criticalAngle / 90) * 100}%` }}>
+                    {criticalAngle}°
+                  </span>
+                  <span className="absolute right-0">90°</span>
+                </div>
+                <p className="text-[10px] text-neutral-600 leading-tight">Blue: resting on the build plate.</p>
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={onSuggest}
+            disabled={disabled}
+            className="w-full px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+          >
+            Suggest orientation
+          </button>
+          {orientations && (
+            <div className="grid grid-cols-3 gap-1">
+              {PORT_FACES.map(face => (
+                <button
+                  key={face}
+                  onClick={() => onChange({ ...settings, direction: face })}
+                  title={`${orientations.reports[face].unsupportedArea.toFixed(0)} mm² unsupported with ${faceLabel(face)} up`}
+                  className={`px-1 py-1 text-[10px] rounded border transition-colors ${
+                    face === orientations.best
+                      ? 'bg-green-900/40 border-green-700 text-green-200'
+                      : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:border-neutral-600'
+                  }`}
+                >
+                  {faceLabel(face)} {percent(orientations.reports[face].unsupportedArea, orientations.reports[face].totalArea)}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-[10px] text-neutral-600 leading-tight">
+            Overhang is measured from vertical on the finished mesh. Faces past the critical
+            angle need support unless they rest on the plate.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Download, Save, Trash2, Upload } from 'lucide-react';
+import { GenParams } from '../types';
+import {
+  BUILT_IN_PRESETS, Preset, loadPresets, parsePresetFile, savePresets, serializePresets, upsertPreset,
+} from '../utils/presets';
+import { downloadFile } from '../utils/download';
+
+interface PresetPanelProps {
+  params: GenParams;
+  onLoad: (params: GenParams) => void;
+  disabled?: boolean;
+}
+
+// Select values: built-ins and saved presets may share a name
+const builtInKey = (name: string) => `builtin:${name}`;
+const savedKey = (name: string) => `saved:${name}`;
+
+const iconButton =
+  'flex items-center justify-center gap-1 px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 ' +
+  'text-neutral-300 hover:bg-neutral-700 disabled:text-neutral-600 disabled:cursor-not-allowed';
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ params, onLoad, disabled = false }) => {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [selected, setSelected] = useState(builtInKey(BUILT_IN_PRESETS[0].name));
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const update = (next: Preset[]) => {
+    setPresets(next);
+    try {
+      savePresets(next);
+    } catch (e) {
+      setMessage(`Could not store presets: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const selectedPreset = selected.startsWith('saved:')
+    ? presets.find(p => savedKey(p.name) === selected)
+    : BUILT_IN_PRESETS.find(p => builtInKey(p.name) === selected);
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    update(upsertPreset(presets, { name: trimmed, params }));
+    setSelected(savedKey(trimmed));
+    setName('');
+    setMessage(`Saved "${trimmed}"`);
+  };
+
+  const remove = () => {
+    if (!selected.startsWith('saved:')) return;
+    update(presets.filter(p => savedKey(p.name) !== selected));
+    setSelected(builtInKey(BUILT_IN_PRESETS[0].name));
+    setMessage(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text(), file.name.replace(/\.json$/i, ''));
+      update(imported.reduce(upsertPreset, presets));
+      setSelected(savedKey(imported[0].name));
+      setMessage(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`);
+    } catch (e) {
+      setMessage(`Import failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 text-cyan-400">
+        <Bookmark size={15} />
+        <span className="text-sm font-semibold uppercase tracking-wider">Presets</span>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1.5 text-sm text-neutral-200"
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map(p => <option key={p.name} value={builtInKey(p.name)}>{p.name}</option>)}
+          </optgroup>
+          {presets.length > 0 && (
+            <optgroup label="Saved">
+              {presets.map(p => <option key={p.name} value={savedKey(p.name)}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => selectedPreset && onLoad(selectedPreset.params)}
+          disabled={disabled || !selectedPreset}
+          className={iconButton}
+        >
+          Load
+        </button>
+        <button
+          onClick={remove}
+          disabled={!selected.startsWith('saved:')}
+          title="Delete saved preset"
+          className={iconButton}
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Name for current settings"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-xs text-neutral-200 placeholder:text-neutral-600"
+        />
+        <button onClick={save} disabled={!name.trim()} className={iconButton}>
+          <Save size={12} /> Save
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => fileInput.current?.click()} className={iconButton}>
+          <Upload size={12} /> Import
+        </button>
+        <button
+          onClick={() => downloadFile(serializePresets(presets), 'gyroidgen-presets.json', 'application/json')}
+          disabled={presets.length === 0}
+          title="Download all saved presets as JSON"
+          className={iconButton}
+        >
+          <Download size={12} /> Export
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {message && <p className="text-[10px] text-neutral-500">{message}</p>}
+    </section>
+  );
+};
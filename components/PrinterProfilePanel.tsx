@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Pencil, Printer, Save, Trash2 } from 'lucide-react';
+import { Vec3 } from '../types';
+import {
+  BUILT_IN_PROFILES, DEFAULT_PROFILE, MAX_BUILD_SIZE, PrinterProfile, loadProfiles, saveProfiles, upsertProfile,
+} from '../utils/printerProfiles';
+
+interface PrinterProfilePanelProps {
+  profile: PrinterProfile;
+  onChange: (profile: PrinterProfile) => void;
+  disabled?: boolean;
+}
+
+// Select values: built-ins and saved profiles may share a name
+const builtInKey = (name: string) => `builtin:${name}`;
+const savedKey = (name: string) => `saved:${name}`;
+
+const iconButton =
+  'flex items-center justify-center gap-1 px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 ' +
+  'text-neutral-300 hover:bg-neutral-700 disabled:text-neutral-600 disabled:cursor-not-allowed';
+
+const numberInput =
+  'w-full bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-right text-[11px] text-neutral-200';
+
+const Field: React.FC<{
+  label: string; value: number; step: number; min: number; max: number; onChange: (v: number) => void;
+}> = ({ label, value, step, min, max, onChange }) => (
+  <label className="flex justify-between items-center gap-2 text-[11px] text-neutral-400">
+    <span>{label}</span>
+    <input
+      type="number" step={step} min={min} max={max}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+      className={`${numberInput} w-20`}
+    />
+  </label>
+);
+
+export const PrinterProfilePanel: React.FC<PrinterProfilePanelProps> = ({ profile, onChange, disabled = false }) => {
+  const [profiles, setProfiles] = useState<PrinterProfile[]>(loadProfiles);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (next: PrinterProfile[]) => {
+    setProfiles(next);
+    try {
+      saveProfiles(next);
+    } catch (e) {
+      setMessage(`Could not store profiles: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Which list entry the active profile came from, and whether it was edited since
+  const saved = profiles.find(p => p.name === profile.name);
+  const source = saved ?? BUILT_IN_PROFILES.find(p => p.name === profile.name);
+  const selected = saved ? savedKey(profile.name) : source ? builtInKey(profile.name) : '';
+  const edited = !source || JSON.stringify(source) !== JSON.stringify(profile);
+
+  const select = (key: string) => {
+    const next = key.startsWith('saved:')
+      ? profiles.find(p => savedKey(p.name) === key)
+      : BUILT_IN_PROFILES.find(p => builtInKey(p.name) === key);
+    if (next) onChange(next);
+    setMessage(null);
+  };
+
+  const edit = (change: Partial<PrinterProfile>) => onChange({ ...profile, ...change });
+  const setVolume = (a: number, v: number) =>
+    edit({ buildVolume: profile.buildVolume.map((c, i) => (i === a ? v : c)) as Vec3 });
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const next = { ...profile, name: trimmed };
+    update(upsertProfile(profiles, next));
+    onChange(next);
+    setName('');
+    setMessage(`Saved "${trimmed}"`);
+  };
+
+  const remove = () => {
+    if (!saved) return;
+    update(profiles.filter(p => p.name !== saved.name));
+    onChange(BUILT_IN_PROFILES.find(p => p.name === saved.name) ?? DEFAULT_PROFILE);
+    setMessage(null);
+  };
+
+  const { material } = profile;
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 text-cyan-400">
+        <Printer size={15} />
+        <span className="text-sm font-semibold uppercase tracking-wider">Printer</span>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={selected}
+          onChange={(e) => select(e.target.value)}
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1.5 text-sm text-neutral-200 disabled:opacity-40"
+        >
+          {!source && <option value="">{profile.name}</option>}
+          <optgroup label="Built-in">
+            {BUILT_IN_PROFILES.map(p => <option key={p.name} value={builtInKey(p.name)}>{p.name}</option>)}
+          </optgroup>
+          {profiles.length > 0 && (
+            <optgroup label="Saved">
+              {profiles.map(p => <option key={p.name} value={savedKey(p.name)}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => setEditing(e => !e)}
+          title="Edit profile values"
+          className={`${iconButton} ${editing ? 'border-cyan-700 text-cyan-200' : ''}`}
+        >
+          <Pencil size={12} />
+        </button>
+        <button onClick={remove} disabled={!saved} title="Delete saved profile" className={iconButton}>
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <p className="text-[10px] text-neutral-500 leading-tight">
+        {profile.lineWidth} mm lines, {profile.layerHeight} mm layers · wall ≥ {profile.minWall} mm,
+        span ≤ {profile.maxSpan} mm, overhang ≤ {profile.criticalAngle}° ·{' '}
+        {profile.buildVolume.join(' × ')} mm · {material.name}
+        {edited && <span className="text-yellow-500/80"> (edited)</span>}
+      </p>
+
+      {editing && (
+        <div className="space-y-1.5 rounded-md border border-neutral-800 bg-neutral-800/30 p-2">
+          <Field label="Line width (mm)" value={profile.lineWidth} step={0.05} min={0.01} max={20}
+                 onChange={(v) => edit({ lineWidth: v })} />
+          <Field label="Layer height (mm)" value={profile.layerHeight} step={0.05} min={0.01} max={10}
+                 onChange={(v) => edit({ layerHeight: v })} />
+          <Field label="Minimum wall (mm)" value={profile.minWall} step={0.1} min={0.05} max={50}
+                 onChange={(v) => edit({ minWall: v })} />
+          <Field label="Max bridge span (mm)" value={profile.maxSpan} step={1} min={0.5} max={500}
+                 onChange={(v) => edit({ maxSpan: v })} />
+          <Field label="Overhang limit (°)" value={profile.criticalAngle} step={1} min={5} max={85}
+                 onChange={(v) => edit({ criticalAngle: v })} />
+          <div className="space-y-1">
+            <span className="text-[11px] text-neutral-400">Build volume X × Y × Z (mm)</span>
+            <div className="grid grid-cols-3 gap-1">
+              {profile.buildVolume.map((v, a) => (
+                <input
+                  key={a}
+                  type="number" step={5} min={1} max={MAX_BUILD_SIZE}
+                  value={v}
+                  onChange={(e) => setVolume(a, Math.min(MAX_BUILD_SIZE, Math.max(1, Number(e.target.value) || 1)))}
+                  className={numberInput}
+                />
+              ))}
+            </div>
+          </div>
+          <label className="flex justify-between items-center gap-2 text-[11px] text-neutral-400">
+            <span>Material</span>
+            <input
+              type="text"
+              value={material.name}
+              onChange={(e) => edit({ material: { ...material, name: e.target.value } })}
+              className="w-28 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-[11px] text-neutral-200"
+            />
+          </label>
+          <Field label="Density (g/cm³)" value={material.density} step={0.05} min={0.1} max={25}
+                 onChange={(v) => edit({ material: { ...material, density: v } })} />
+          <Field label="Shrinkage (%)" value={material.shrinkage} step={0.5} min={0} max={49}
+                 onChange={(v) => edit({ material: { ...material, shrinkage: v } })} />
+
+          <div className="flex gap-2 pt-1">
+            <input
+              type="text"
+              value={name}
+              placeholder="Save as…"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+              className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-xs text-neutral-200 placeholder:text-neutral-600"
+            />
+            <button onClick={save} disabled={!name.trim()} className={iconButton}>
+              <Save size={12} /> Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-[10px] text-neutral-500">{message}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, ChevronDown, ChevronRight, Scissors } from 'lucide-react';
+import { Axis, GenParams } from '../types';
+import { SECTION_AXES, SectionPlane, SectionPlanes, describeSection, sectionRange } from '../utils/sections';
+
+interface SectionPanelProps {
+  params: GenParams;
+  sections: SectionPlanes;
+  active: Axis | null;                // plane carrying the viewport gizmo
+  onChange: (axis: Axis, plane: Partial<SectionPlane>) => void;
+  onActivate: (axis: Axis) => void;
+}
+
+export const SectionPanel: React.FC<SectionPanelProps> = ({
+  params, sections, active, onChange, onActivate,
+}) => {
+  const [open, setOpen] = useState(false);
+  const enabled = SECTION_AXES.filter(a => sections[a].enabled);
+
+  const update = (axis: Axis, plane: Partial<SectionPlane>) => {
+    onChange(axis, plane);
+    onActivate(axis);
+  };
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Section</span>
+        <span className="ml-auto flex items-center gap-1 text-neutral-500">
+          {enabled.length > 0 && <span className="text-rose-300">{enabled.join('').toUpperCase()}</span>}
+          <Scissors size={13} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          {SECTION_AXES.map(axis => {
+            const plane = sections[axis];
+            const range = sectionRange(params, axis);
+            return (
+              <div key={axis} className="space-y-1">
+                <div className="flex items-center gap-2 text-[11px]">
+                  <label className="flex items-center gap-1.5 text-neutral-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={plane.enabled}
+                      onChange={(e) => update(axis, { enabled: e.target.checked })}
+                      className="accent-rose-500"
+                    />
+                    {axis.toUpperCase()}
+                  </label>
+                  <span className={`ml-auto ${plane.enabled ? 'text-neutral-300' : 'text-neutral-600'}`}>
+                    {describeSection(axis, plane)}
+                  </span>
+                  <button
+                    onClick={() => update(axis, { flip: !plane.flip })}
+                    disabled={!plane.enabled}
+                    title="Keep the other side"
+                    className="text-neutral-500 hover:text-neutral-200 disabled:opacity-40"
+                  >
+                    <ArrowLeftRight size={12} />
+                  </button>
+                </div>
+                <input
+                  type="range" min={-range} max={range} step={0.5}
+                  value={Math.min(range, Math.max(-range, plane.offset))}
+                  onChange={(e) => update(axis, { offset: parseFloat(e.target.value) })}
+                  disabled={!plane.enabled}
+                  className={`w-full h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-rose-500 disabled:opacity-40 ${
+                    active === axis && plane.enabled ? '' : 'opacity-70'
+                  }`}
+                />
+              </div>
+            );
+          })}
+          <p className="text-[10px] text-neutral-600 leading-tight">
+            Cut faces are drawn in red. Drag the arrow in the viewport to move the last plane touched.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
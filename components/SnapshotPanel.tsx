@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, History, X } from 'lucide-react';
+import { MeshData } from '../types';
+import { Snapshot, snapshotBytes } from '../utils/snapshots';
+
+interface SnapshotPanelProps {
+  snapshots: Snapshot[];            // newest first
+  current: MeshData | null;         // mesh in the viewport
+  budget: number;                   // bytes
+  onRestore: (snapshot: Snapshot) => void;
+  onRemove: (id: number) => void;
+}
+
+const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+
+const faceLabel = (faces: number) =>
+  faces >= 1e6 ? `${(faces / 1e6).toFixed(1)}M` : `${(faces / 1e3).toFixed(0)}k`;
+
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  snapshots, current, budget, onRestore, onRemove,
+}) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Snapshots</span>
+        <span className="ml-auto flex items-center gap-1 text-neutral-500">
+          {snapshots.length > 0 && <span>{snapshots.length}</span>}
+          <History size={13} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          {snapshots.length === 0 ? (
+            <p className="text-[11px] text-neutral-500">Generated designs appear here.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {snapshots.map(s => (
+                <div key={s.id} className="relative group">
+                  <button
+                    onClick={() => onRestore(s)}
+                    title={`${s.params.surfaceType ?? 'gyroid'}, ${s.faces.toLocaleString()} faces, ` +
+                      `${s.vertices.toLocaleString()} vertices, generated in ${s.seconds.toFixed(1)} s at ` +
+                      new Date(s.createdAt).toLocaleTimeString()}
+                    className={`w-full rounded border p-1 transition-colors ${
+                      s.mesh === current
+                        ? 'border-cyan-600 bg-cyan-900/30'
+                        : 'border-neutral-700 bg-neutral-900/60 hover:border-neutral-500'
+                    }`}
+                  >
+                    {s.thumbnail
+                      ? <img src={s.thumbnail} alt="" className="w-full aspect-square" />
+                      : <div className="w-full aspect-square" />}
+                    <div className="text-[10px] text-neutral-400 leading-tight">{faceLabel(s.faces)}</div>
+                  </button>
+                  <button
+                    onClick={() => onRemove(s.id)}
+                    title="Forget snapshot"
+                    className="absolute top-0.5 right-0.5 hidden group-hover:block text-neutral-500 hover:text-red-400"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-[10px] text-neutral-600 leading-tight">
+            {mb(snapshotBytes(snapshots))} of {mb(budget)} — the oldest are dropped when full.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Ruler } from 'lucide-react';
+import { THICKNESS_GRADIENT, ThinWallReport } from '../utils/wallThickness';
+
+interface ThicknessPanelProps {
+  report: ThinWallReport | null;      // null until the current mesh is measured
+  progress: number | null;            // null when idle
+  disabled: boolean;
+  minWall: number;                    // mm
+  onMinWallChange: (mm: number) => void;
+  showHeatmap: boolean;
+  onShowHeatmapChange: (show: boolean) => void;
+  onMeasure: () => void;
+}
+
+const Row: React.FC<{ label: string; value: React.ReactNode; bad?: boolean }> = ({ label, value, bad }) => (
+  <div className="flex justify-between text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className={bad ? 'text-red-400 font-medium' : 'text-neutral-300'}>{value}</span>
+  </div>
+);
+
+export const ThicknessPanel: React.FC<ThicknessPanelProps> = ({
+  report, progress, disabled, minWall, onMinWallChange, showHeatmap, onShowHeatmapChange, onMeasure,
+}) => {
+  const [open, setOpen] = useState(false);
+  const busy = progress !== null;
+  const thin = report !== null && report.thinFaces > 0;
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Wall thickness</span>
+        <span className="ml-auto flex items-center gap-1 text-neutral-500">
+          {report && (
+            <span className={thin ? 'text-red-400' : 'text-green-400'}>
+              {thin ? `${report.thinRegions} thin` : 'OK'}
+            </span>
+          )}
+          <Ruler size={13} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="space-y-1">
+            <div className="flex justify-between text-[11px] text-neutral-400">
+              <span>Minimum wall</span>
+              <span className="text-neutral-300">{minWall.toFixed(1)} mm</span>
+            </div>
+            <input
+              type="range" min={0.2} max={4} step={0.1}
+              value={minWall}
+              onChange={(e) => onMinWallChange(parseFloat(e.target.value))}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          <button
+            onClick={onMeasure}
+            disabled={disabled || busy}
+            className="w-full px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+          >
+            {busy ? `Measuring ${Math.round(progress ?? 0)}%` : report ? 'Measure again' : 'Measure walls'}
+          </button>
+
+          {report && (
+            <div className="space-y-1 pt-1 border-t border-neutral-800">
+              <Row label="Thinnest wall" value={`${report.minThickness.toFixed(2)} mm`} bad={report.minThickness < minWall} />
+              <Row label="Thin regions" value={report.thinRegions.toLocaleString()} bad={thin} />
+              <Row label="Thin area" value={`${report.thinArea.toFixed(0)} mm²`} bad={thin} />
+              <label className="flex items-center gap-2 pt-1 text-[11px] text-neutral-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showHeatmap}
+                  onChange={(e) => onShowHeatmapChange(e.target.checked)}
+                />
+                Show heatmap
+              </label>
+              {showHeatmap && (
+                <div className="space-y-0.5">
+                  <div className="h-2 rounded" style={{ background: THICKNESS_GRADIENT }} />
+                  <div className="relative h-3 text-[10px] text-neutral-500">
+                    <span className="absolute left-0">0</span>
+                    <span className="absolute left-1/3 -translate-x-1/2">{minWall.toFixed(1)}</span>
+                    <span className="absolute right-0">{(minWall * 3).toFixed(1)}+ mm</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <p className="text-[10px] text-neutral-600 leading-tight">
+            Measured on the finished mesh by casting a ray inward from every vertex.
+            Unlike the estimate under Printability, this includes shell clipping, ports and smoothing.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Route } from 'lucide-react';
+import { GcodeSettings, ToolpathStats, formatDuration } from '../utils/gcode';
+import { MIN_LOOP } from '../utils/slicer';
+
+interface ToolpathPanelProps {
+  settings: GcodeSettings;
+  onChange: (settings: GcodeSettings) => void;
+  stats: ToolpathStats | null;        // null until the current part is sliced with these settings
+  progress: number | null;            // null when idle
+  error: string | null;               // why the last slice of the current part failed
+  disabled: boolean;
+  onSlice: () => void;
+  onDownload: () => void;
+  showPreview: boolean;
+  onShowPreviewChange: (show: boolean) => void;
+  layer: number;                      // preview shows layers up to this one
+  onLayerChange: (layer: number) => void;
+}
+
+const Row: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between text-[11px]">
+    <span className="text-neutral-500">{label}</span>
+    <span className="text-neutral-300">{value}</span>
+  </div>
+);
+
+const numberInput =
+  'w-20 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-right text-[11px] text-neutral-200';
+
+const Field: React.FC<{
+  label: string; value: number; step: number; min: number; max: number; onChange: (v: number) => void;
+}> = ({ label, value, step, min, max, onChange }) => (
+  <label className="flex justify-between items-center gap-2 text-[11px] text-neutral-400">
+    <span>{label}</span>
+    <input
+      type="number" step={step} min={min} max={max}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+      className={numberInput}
+    />
+  </label>
+);
+
+const Script: React.FC<{ label: string; value: string; onChange: (v: string) => void }> = ({ label, value, onChange }) => (
+  <label className="block space-y-1 text-[11px] text-neutral-400">
+    <span>{label}</span>
+    <textarea
+      value={value}
+      rows={3}
+      spellCheck={false}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-neutral-800 border border-neutral-700 rounded px-1.5 py-1 font-mono text-[10px] text-neutral-200"
+    />
+  </label>
+);
+
+export const ToolpathPanel: React.FC<ToolpathPanelProps> = ({
+  settings, onChange, stats, progress, error, disabled, onSlice, onDownload,
+  showPreview, onShowPreviewChange, layer, onLayerChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [advanced, setAdvanced] = useState(false);
+  const busy = progress !== null;
+  const edit = (change: Partial<GcodeSettings>) => onChange({ ...settings, ...change });
+  const setCenter = (a: number, v: number) =>
+    edit({ bedCenter: settings.bedCenter.map((c, i) => (i === a ? v : c)) as [number, number] });
+
+  return (
+    <div className="rounded-md border border-neutral-800 bg-neutral-800/30">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-neutral-300"
+      >
+        {open ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <span className="font-semibold uppercase tracking-wider">Toolpath</span>
+        <span className="ml-auto flex items-center gap-1 text-neutral-500">
+          {busy ? <span className="text-yellow-400">{Math.round(progress ?? 0)}%</span>
+            : stats && <span className="text-green-400">{stats.layers} layers</span>}
+          <Route size={13} />
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="space-y-1.5">
+            <Field label="Layer height (mm)" value={settings.layerHeight} step={0.05} min={0.05} max={10}
+                   onChange={(v) => edit({ layerHeight: v })} />
+            <Field label="Line width (mm)" value={settings.lineWidth} step={0.05} min={0.1} max={20}
+                   onChange={(v) => edit({ lineWidth: v })} />
+            <Field label="Perimeters" value={settings.perimeters} step={1} min={1} max={10}
+                   onChange={(v) => edit({ perimeters: Math.round(v) })} />
+            <Field label="Print speed (mm/s)" value={settings.printSpeed} step={1} min={1} max={500}
+                   onChange={(v) => edit({ printSpeed: v })} />
+            <Field label="First layer (mm/s)" value={settings.firstLayerSpeed} step={1} min={1} max={500}
+                   onChange={(v) => edit({ firstLayerSpeed: v })} />
+            <Field label="Travel speed (mm/s)" value={settings.travelSpeed} step={5} min={1} max={1000}
+                   onChange={(v) => edit({ travelSpeed: v })} />
+            <Field label="Retraction (mm)" value={settings.retractLength} step={0.5} min={0} max={50}
+                   onChange={(v) => edit({ retractLength: v })} />
+          </div>
+
+          <button
+            onClick={() => setAdvanced(a => !a)}
+            className="flex items-center gap-1 text-[11px] text-neutral-500 hover:text-neutral-300"
+          >
+            {advanced ? <ChevronDown size={11} /> : <ChevronRight size={11} />}
+            Extrusion and scripts
+          </button>
+          {advanced && (
+            <div className="space-y-1.5 rounded-md border border-neutral-800 bg-neutral-800/30 p-2">
+              <Field label="Retract speed (mm/s)" value={settings.retractSpeed} step={1} min={1} max={200}
+                     onChange={(v) => edit({ retractSpeed: v })} />
+              <Field label="Z-hop (mm)" value={settings.zHop} step={0.1} min={0} max={20}
+                     onChange={(v) => edit({ zHop: v })} />
+              <Field label="Material diameter (mm)" value={settings.materialDiameter} step={0.05} min={0.5} max={200}
+                     onChange={(v) => edit({ materialDiameter: v })} />
+              <Field label="Flow multiplier" value={settings.flow} step={0.05} min={0.1} max={5}
+                     onChange={(v) => edit({ flow: v })} />
+              <div className="space-y-1">
+                <span className="text-[11px] text-neutral-400">Bed centre X × Y (mm)</span>
+                <div className="grid grid-cols-2 gap-1">
+                  {settings.bedCenter.map((v, a) => (
+                    <input
+                      key={a}
+                      type="number" step={5}
+                      value={v}
+                      onChange={(e) => setCenter(a, Number(e.target.value) || 0)}
+                      className={`${numberInput} w-full`}
+                    />
+                  ))}
+                </div>
+              </div>
+              <Script label="Start G-code" value={settings.startScript} onChange={(v) => edit({ startScript: v })} />
+              <Script label="End G-code" value={settings.endScript} onChange={(v) => edit({ endScript: v })} />
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={onSlice}
+              disabled={disabled || busy}
+              className="flex-1 px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+            >
+              {busy ? `Slicing ${Math.round(progress ?? 0)}%` : stats ? 'Slice again' : 'Slice'}
+            </button>
+            <button
+              onClick={onDownload}
+              disabled={!stats || busy}
+              title="Download the G-code"
+              className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border border-neutral-700 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+            >
+              <Download size={12} /> G-code
+            </button>
+          </div>
+
+          {error && !busy && <p className="text-[11px] text-red-400 leading-tight">Slicing failed: {error}</p>}
+
+          {stats && (
+            <div className="space-y-1 pt-1 border-t border-neutral-800">
+              <Row label="Layers" value={stats.layers.toLocaleString()} />
+              <Row label="Perimeter loops" value={(stats.loops - stats.beads).toLocaleString()} />
+              {stats.beads > 0 && <Row label="Thin-wall beads" value={stats.beads.toLocaleString()} />}
+              {stats.dropped > 0 && (
+                <p className="text-[11px] text-yellow-400 leading-tight">
+                  {stats.dropped.toLocaleString()} closed walls shorter than {MIN_LOOP} bead widths left out
+                </p>
+              )}
+              <Row label="Extruded" value={`${(stats.printLength / 1000).toFixed(1)} m, ${(stats.volume / 1000).toFixed(1)} cm³`} />
+              <Row label="Print time" value={`≈ ${formatDuration(stats.seconds)}`} />
+              <label className="flex items-center gap-2 pt-1 text-[11px] text-neutral-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showPreview}
+                  onChange={(e) => onShowPreviewChange(e.target.checked)}
+                />
+                Preview in viewport
+              </label>
+              {showPreview && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[11px] text-neutral-400">
+                    <span>Up to layer</span>
+                    <span className="text-neutral-300">
+                      {layer + 1} / {stats.layers} · Z {((layer + 1) * settings.layerHeight).toFixed(2)} mm
+                    </span>
+                  </div>
+                  <input
+                    type="range" min={0} max={stats.layers - 1} step={1}
+                    value={layer}
+                    onChange={(e) => onLayerChange(Number(e.target.value))}
+                    className="w-full accent-cyan-500"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <p className="text-[10px] text-neutral-600 leading-tight">
+            Sliced from the implicit field, Z up, at the mesh resolution. Each wall side gets closed
+            perimeters half a bead inside the surface; walls thinner than a bead get one bead along
+            their middle instead, and solid regions get no infill.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
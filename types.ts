@@ -1,21 +1,115 @@
+export type SurfaceType =
+  | 'gyroid'
+  | 'schwarzP'
+  | 'schwarzD'
+  | 'neovius'
+  | 'lidinoid'
+  | 'splitP'
+  | 'iwp';
+
+export type Axis = 'x' | 'y' | 'z';
+
+export type Vec3 = [number, number, number];
+
+export type GradientMode = 'none' | 'linear' | 'radial' | 'ports';
+
+export type EnvelopeType = 'box' | 'cylinder' | 'sphere' | 'hexPrism';
+
+export type FittingType = 'stub' | 'barb' | 'flange';
+
+export type PortFace = 'x+' | 'x-' | 'y+' | 'y-' | 'z+' | 'z-';
+
+export type Channel = 'a' | 'b';
+
+/**
+ * One port opening.  `window` limits it to part of the face as
+ * [u0, u1, v0, v1] in −1…1 face coordinates, where u and v are the next two
+ * axes after the face normal (x → y, z; y → z, x; z → x, y).
+ */
+export interface PortSpec {
+  face: PortFace;
+  window?: [number, number, number, number];
+}
+
+export interface ChannelPorts {
+  inlet: PortSpec;
+  outlet: PortSpec;
+}
+
+export interface PortLayout {
+  a: ChannelPorts;
+  b: ChannelPorts;
+}
+
 export interface GenParams {
-  size: number;
-  cellSize: number;
-  wallThickness: number;  // Gyroid function threshold (unitless, not mm)
+  size: number;           // cube edge length (mm)
+  cellSize: number;       // target cell size (mm), snapped to whole cells
+  dimensions?: Vec3;      // X/Y/Z box extents (mm) — overrides `size`
+  cellSizes?: Vec3;       // per-axis target cell size (mm) — overrides `cellSize`
+  surfaceType?: SurfaceType; // TPMS family (default 'gyroid')
+  wallThickness: number;  // TPMS function threshold (unitless, not mm)
+  // ── Graded wall density ─────────────────────────────────────────
+  gradientMode?: GradientMode; // how the threshold varies with position (default 'none')
+  gradientAxis?: Axis;         // (linear) axis the gradient runs along
+  wallThicknessEnd?: number;   // threshold at the far end of the gradient
   // ── Structural boundary ──────────────────────────────────────────
-  useFrame: boolean;      // true → edge-beam frame; false → hollow shell
+  envelope?: EnvelopeType; // outer shape fitted in the box (default 'box'); Z is the cylinder/prism axis
+  useFrame: boolean;      // true → edge-beam frame (box envelope only); false → hollow shell
   shellThickness: number; // (shell mode) outer enclosure thickness (mm)
   frameBeamWidth: number; // (frame mode) square beam cross-section width (mm)
+  filletRadius?: number;  // smooth-min blend radius where walls meet shell/frame (mm)
+  ports?: PortLayout;     // (shell mode) channel port faces (default crossflow: A on Z, B on X)
+  // ── Inlet/outlet headers (shell mode, box envelope) ─────────────
+  headers?: boolean;          // plenum box over every port window, ending in a fitting
+  headerDepth?: number;       // plenum depth beyond the face (mm)
+  fitting?: FittingType;      // fitting at the end of each header (default 'stub')
+  fittingDiameter?: number;   // tube outer diameter (mm)
+  fittingLength?: number;     // tube length beyond the header (mm)
+  boltCount?: number;         // (flange) number of bolt holes
   // ── Quality / export ────────────────────────────────────────────
-  resolution: number;
+  resolution: number;     // grid samples along the longest box edge
   smoothingIterations?: number;
   makeManifold?: boolean; // (shell mode) seal port openings → watertight STL
 }
 
+/** A value per fluid channel (A: G > wallThickness, B: G < −wallThickness). */
+export interface ChannelPair {
+  a: number;
+  b: number;
+}
+
+/** Thermal-hydraulic figures for the generated core (mm, mm², mm³). */
+export interface ExchangerMetrics {
+  channelVolume: ChannelPair;
+  wettedArea: ChannelPair;
+  hydraulicDiameter: ChannelPair;   // 4·V / A
+  solidVolume: number;
+  envelopeVolume: number;
+  porosity: number;                 // fluid volume / envelope volume
+  portArea: { face: string; open: ChannelPair }[];  // projected open area per face
+}
+
+/** Named run of triangles, e.g. a CFD boundary patch. */
+export interface MeshGroup {
+  name: string;
+  start: number;            // first triangle
+  count: number;            // number of triangles
+}
+
 export interface MeshData {
   vertices: Float32Array;   // Unique vertex positions [x,y,z, ...]
   normals: Float32Array;    // Per-vertex normals [nx,ny,nz, ...]
   indices: Uint32Array;     // Triangle indices (3 per face)
+  metrics?: ExchangerMetrics;
+  groups?: MeshGroup[];     // consecutive, covering every triangle when present
 }
 
+/** Closed fluid volumes of the two channels (see utils/fluidDomains). */
+export interface FluidDomains {
+  a: MeshData;
+  b: MeshData;
+}
+
+export type ExportFormat = 'stl' | 'stl-ascii' | '3mf' | 'obj' | 'ply';
+
 export type ProgressCallback = (percent: number) => void;
@@ -0,0 +1,58 @@
+import { GenParams, Vec3 } from '../types';
+
+/**
+ * Resolved box geometry: per-axis extents and whole-cell snapping.
+ *
+ * `dimensions` / `cellSizes` override the cubic `size` / `cellSize` when
+ * present.  Each axis snaps independently to an integer number of cells so
+ * every face terminates at the same TPMS phase, as the cube always has.
+ */
+export interface BoxGeometry {
+  dims: Vec3;       // edge lengths (mm)
+  half: Vec3;       // half extents (mm)
+  cellCounts: Vec3; // whole cells per axis
+  cellSizes: Vec3;  // snapped cell size per axis (mm)
+  isCube: boolean;  // true when all three edges are equal
+}
+
+export function resolveBox(params: GenParams): BoxGeometry {
+  const dims: Vec3 = params.dimensions
+    ? [params.dimensions[0], params.dimensions[1], params.dimensions[2]]
+    : [params.size, params.size, params.size];
+  const targets: Vec3 = params.cellSizes
+    ? [params.cellSizes[0], params.cellSizes[1], params.cellSizes[2]]
+    : [params.cellSize, params.cellSize, params.cellSize];
+
+  const cellCounts = dims.map((d, i) => Math.max(1, Math.round(d / targets[i]))) as Vec3;
+  const cellSizes  = dims.map((d, i) => d / cellCounts[i]) as Vec3;
+  const half       = dims.map(d => d / 2) as Vec3;
+  const isCube     = dims[0] === dims[1] && dims[1] === dims[2];
+
+  return { dims, half, cellCounts, cellSizes, isCube };
+}
+
+/**
+ * `resolveBox`, after checking the edges and then the target cell sizes —
+ * each named as the parameter that holds it, since a zero edge would
+ * otherwise surface as a zero cell size.
+ */
+export function checkedBox(params: GenParams): BoxGeometry {
+  const positive = (v: number) => Number.isFinite(v) && v > 0;
+  if (params.dimensions) {
+    const bad = params.dimensions.findIndex(d => !positive(d));
+    if (bad >= 0) throw new Error(`Invalid dimensions: ${'XYZ'[bad]} is ${params.dimensions[bad]} mm, must be positive`);
+  } else if (!positive(params.size)) {
+    throw new Error(`Invalid size: ${params.size} mm, must be positive`);
+  }
+  if (params.cellSizes) {
+    const bad = params.cellSizes.findIndex(c => !positive(c));
+    if (bad >= 0) throw new Error(`Invalid cell sizes: ${'XYZ'[bad]} is ${params.cellSizes[bad]} mm, must be positive`);
+  } else if (!positive(params.cellSize)) {
+    throw new Error(`Invalid cell size: ${params.cellSize} mm, must be positive`);
+  }
+  return resolveBox(params);
+}
+
+/** Compact size tag for filenames and labels, e.g. "100mm" or "200x60x60mm". */
+export const boxLabel = (box: BoxGeometry): string =>
+  box.isCube ? `${box.dims[0]}mm` : `${box.dims.join('x')}mm`;
@@ -0,0 +1,533 @@
+import { MeshData, ProgressCallback } from '../types';
+import { computeVertexNormals } from './marchingCubes';
+
+/**
+ * Quadric-error edge-collapse decimation (Garland & Heckbert).
+ *
+ * Rather than a priority queue, edges are collapsed in sweeps with a rising
+ * error threshold, as in Fast-Quadric-Mesh-Simplification — cheap enough for
+ * meshes of several million faces.  Each collapse must keep the mesh a
+ * 2-manifold (link condition) and must not flip or degenerate any surviving
+ * face.
+ *
+ * Sharp edges — the shell and frame edges, and where the TPMS wall meets
+ * them — are detected by dihedral angle and constrained: crease vertices
+ * only slide along their crease, corners never move.  Open and non-manifold
+ * edges are locked the same way, so an imperfect mesh is never made worse.
+ *
+ * Quadrics are unweighted plane sums, so √error bounds the distance of the
+ * new vertex from every original face plane merged into it; `maxError`
+ * therefore acts as a conservative tolerance in mm.
+ */
+
+export interface DecimateOptions {
+  targetFaces?: number;     // stop once the mesh has at most this many faces
+  maxError?: number;        // mm — never collapse beyond this deviation
+  featureAngle?: number;    // degrees; sharper edges are preserved (default 40)
+}
+
+export interface DecimationResult {
+  mesh: MeshData;
+  facesBefore: number;
+  facesAfter: number;
+  /** mm — largest distance from an original vertex to the decimated surface (upper bound). */
+  maxDeviation: number;
+}
+
+// Vertex classes
+const FREE = 0, CREASE = 1, CORNER = 2;
+
+// Quadric error of point (x, y, z); q holds the 10 unique entries of the
+// symmetric 4×4 matrix [a² ab ac ad b² bc bd c² cd d²]
+function quadricError(q: Float64Array, x: number, y: number, z: number): number {
+  return q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x
+       + q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y
+       + q[7] * z * z + 2 * q[8] * z
+       + q[9];
+}
+
+// Squared distance from p to triangle abc (Ericson, Real-Time Collision Detection 5.1.5)
+function pointTriangleDist2(
+  px: number, py: number, pz: number,
+  pos: Float32Array, a: number, b: number, c: number,
+): number {
+  const ax = pos[a * 3], ay = pos[a * 3 + 1], az = pos[a * 3 + 2];
+  const abx = pos[b * 3] - ax, aby = pos[b * 3 + 1] - ay, abz = pos[b * 3 + 2] - az;
+  const acx = pos[c * 3] - ax, acy = pos[c * 3 + 1] - ay, acz = pos[c * 3 + 2] - az;
+  const apx = px - ax, apy = py - ay, apz = pz - az;
+
+  // Barycentric (s, t) of the closest point: a + s·ab + t·ac
+  let s: number, t: number;
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  const bpx = apx - abx, bpy = apy - aby, bpz = apz - abz;
+  const d3 = abx * bpx + aby * bpy + abz * bpz;
+  const d4 = acx * bpx + acy * bpy + acz * bpz;
+  const cpx = apx - acx, cpy = apy - acy, cpz = apz - acz;
+  const d5 = abx * cpx + aby * cpy + abz * cpz;
+  const d6 = acx * cpx + acy * cpy + acz * cpz;
+  const vc = d1 * d4 - d3 * d2;
+  const vb = d5 * d2 - d1 * d6;
+  const va = d3 * d6 - d5 * d4;
+
+  if (d1 <= 0 && d2 <= 0) { s = 0; t = 0; }                                // vertex a
+  else if (d3 >= 0 && d4 <= d3) { s = 1; t = 0; }                          // vertex b
+  else if (vc <= 0 && d1 >= 0 && d3 <= 0) { s = d1 / (d1 - d3); t = 0; }   // edge ab
+  else if (d6 >= 0 && d5 <= d6) { s = 0; t = 1; }                          // vertex c
+  else if (vb <= 0 && d2 >= 0 && d6 <= 0) { s = 0; t = d2 / (d2 - d6); }   // edge ac
+  else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {                      // edge bc
+    t = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+    s = 1 - t;
+  } else {                                                                 // inside
+    const denom = 1 / (va + vb + vc);
+    s = vb * denom;
+    t = vc * denom;
+  }
+
+  const dx = abx * s + acx * t - apx, dy = aby * s + acy * t - apy, dz = abz * s + acz * t - apz;
+  return dx * dx + dy * dy + dz * dz;
+}
+
+// Largest distance (mm) from the flagged points to the triangle mesh.
+// Triangles are bucketed by bounding box in a uniform grid; each query
+// searches a growing cube of cells until the nearest hit is provably inside.
+function maxDistanceToSurface(
+  points: Float32Array,
+  flagged: Uint8Array,
+  vertices: Float32Array,
+  indices: Uint32Array,
+): number {
+  const numFaces = indices.length / 3;
+  if (numFaces === 0) return 0;
+
+  const lo = [Infinity, Infinity, Infinity], hi = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < vertices.length; i += 3) {
+    for (let a = 0; a < 3; a++) {
+      lo[a] = Math.min(lo[a], vertices[i + a]);
+      hi[a] = Math.max(hi[a], vertices[i + a]);
+    }
+  }
+  let edgeSum = 0;
+  for (let f = 0; f < numFaces; f++) {
+    for (let k = 0; k < 3; k++) {
+      const a = indices[f * 3 + k] * 3, b = indices[f * 3 + (k + 1) % 3] * 3;
+      edgeSum += Math.hypot(vertices[a] - vertices[b], vertices[a + 1] - vertices[b + 1], vertices[a + 2] - vertices[b + 2]);
+    }
+  }
+
+  // Cells half a mean edge wide, capped at ~4M cells
+  let h = Math.max((0.5 * edgeSum) / (3 * numFaces), 1e-6);
+  const dims = () => lo.map((l, a) => Math.floor((hi[a] - l) / h) + 1);
+  while (dims().reduce((n, d) => n * d, 1) > 4_000_000) h *= 1.25;
+  const [gx, gy, gz] = dims();
+  const cellOf = (v: number, a: number, n: number) => Math.min(n - 1, Math.max(0, Math.floor((v - lo[a]) / h)));
+
+  // Bucket faces (CSR: count, prefix sum, fill)
+  const cellStart = new Int32Array(gx * gy * gz + 1);
+  const forEachCell = (f: number, visit: (cell: number) => void) => {
+    const r = [0, 0, 0, 0, 0, 0];
+    for (let a = 0; a < 3; a++) {
+      const n = a === 0 ? gx : a === 1 ? gy : gz;
+      let mn = Infinity, mx = -Infinity;
+      for (let k = 0; k < 3; k++) {
+        const c = vertices[indices[f * 3 + k] * 3 + a];
+        mn = Math.min(mn, c); mx = Math.max(mx, c);
+      }
+      r[a * 2] = cellOf(mn, a, n); r[a * 2 + 1] = cellOf(mx, a, n);
+    }
+    for (let z = r[4]; z <= r[5]; z++)
+      for (let y = r[2]; y <= r[3]; y++)
+        for (let x = r[0]; x <= r[1]; x++) visit(x + (y + z * gy) * gx);
+  };
+  for (let f = 0; f < numFaces; f++) forEachCell(f, (c) => { cellStart[c + 1]++; });
+  for (let c = 0; c < gx * gy * gz; c++) cellStart[c + 1] += cellStart[c];
+  const cellFaces = new Int32Array(cellStart[gx * gy * gz]);
+  const fill = cellStart.slice(0, gx * gy * gz);
+  for (let f = 0; f < numFaces; f++) forEachCell(f, (c) => { cellFaces[fill[c]++] = f; });
+
+  let max2 = 0;
+  for (let v = 0; v < points.length / 3; v++) {
+    if (!flagged[v]) continue;
+    const px = points[v * 3], py = points[v * 3 + 1], pz = points[v * 3 + 2];
+    const cx = cellOf(px, 0, gx), cy = cellOf(py, 1, gy), cz = cellOf(pz, 2, gz);
+    let d2 = Infinity;
+    for (let r = 0; ; r++) {
+      for (let z = Math.max(0, cz - r); z <= Math.min(gz - 1, cz + r); z++) {
+        for (let y = Math.max(0, cy - r); y <= Math.min(gy - 1, cy + r); y++) {
+          for (let x = Math.max(0, cx - r); x <= Math.min(gx - 1, cx + r); x++) {
+            const c = x + (y + z * gy) * gx;
+            for (let j = cellStart[c]; j < cellStart[c + 1]; j++) {
+              const f = cellFaces[j];
+              d2 = Math.min(d2, pointTriangleDist2(px, py, pz, vertices, indices[f * 3], indices[f * 3 + 1], indices[f * 3 + 2]));
+            }
+          }
+        }
+      }
+      // Unsearched faces lie beyond the searched cube's walls (the grid's
+      // outer walls have nothing behind them)
+      let wall = Infinity;
+      if (cx - r > 0)      wall = Math.min(wall, px - (lo[0] + (cx - r) * h));
+      if (cx + r < gx - 1) wall = Math.min(wall, lo[0] + (cx + r + 1) * h - px);
+      if (cy - r > 0)      wall = Math.min(wall, py - (lo[1] + (cy - r) * h));
+      if (cy + r < gy - 1) wall = Math.min(wall, lo[1] + (cy + r + 1) * h - py);
+      if (cz - r > 0)      wall = Math.min(wall, pz - (lo[2] + (cz - r) * h));
+      if (cz + r < gz - 1) wall = Math.min(wall, lo[2] + (cz + r + 1) * h - pz);
+      if (d2 <= Math.max(0, wall) ** 2 || wall === Infinity) break;
+    }
+    if (d2 > max2) max2 = d2;
+  }
+  return Math.sqrt(max2);
+}
+
+/**
+ * Decimate `data` down to `targetFaces` and/or within `maxError` — whichever
+ * stops first.  At least one of the two must be given.  Returns a new mesh;
+ * metrics carry over, groups do not.
+ */
+export function decimateMesh(
+  data: MeshData,
+  options: DecimateOptions,
+  onProgress?: ProgressCallback,
+): DecimationResult {
+  const { targetFaces, maxError, featureAngle = 40 } = options;
+  if (targetFaces === undefined && maxError === undefined) {
+    throw new Error('Decimation needs a target face count or an error tolerance');
+  }
+  const target = Math.max(4, Math.floor(targetFaces ?? 0));
+  const tol2 = maxError !== undefined ? Math.max(0, maxError) ** 2 : Infinity;
+
+  const numVerts = data.vertices.length / 3;
+  const facesBefore = data.indices.length / 3;
+  let F = facesBefore;                          // faces in the arrays (live + dead until compaction)
+  let alive = F;
+
+  const pos = Float64Array.from(data.vertices);
+  const q = new Float64Array(numVerts * 10);
+  const tri = Uint32Array.from(data.indices);
+  const err = new Float32Array(F * 4);          // per-edge error; [3] = min of the three
+  const tn = new Float32Array(F * 3);           // unit face normals (zero if degenerate)
+  const dead = new Uint8Array(F);
+  const dirty = new Uint8Array(F);
+  const kind = new Uint8Array(numVerts);
+  const moved = new Uint8Array(numVerts);       // vertices no longer where they started
+
+  // Feature-edge neighbours of crease/corner vertices
+  const featNbr = new Map<number, number[]>();
+  const addFeature = (a: number, b: number) => {
+    let list = featNbr.get(a);
+    if (!list) featNbr.set(a, (list = []));
+    if (!list.includes(b)) list.push(b);
+  };
+  const isFeature = (a: number, b: number) => featNbr.get(a)?.includes(b) ?? false;
+  const classify = (v: number) => {
+    if (kind[v] === CORNER) return;             // locked stays locked
+    const n = featNbr.get(v)?.length ?? 0;
+    kind[v] = n === 0 ? FREE : n === 2 ? CREASE : CORNER;
+  };
+
+  // ── Vertex → face references (rebuilt on compaction, appended on collapse)
+  const tstart = new Int32Array(numVerts);
+  const tcount = new Int32Array(numVerts);
+  let refT = new Int32Array(F * 6);
+  let refK = new Uint8Array(F * 6);
+  let refLen = 0;
+  const pushRef = (t: number, k: number) => {
+    if (refLen === refT.length) {
+      const grownT = new Int32Array(refT.length * 2); grownT.set(refT); refT = grownT;
+      const grownK = new Uint8Array(refK.length * 2); grownK.set(refK); refK = grownK;
+    }
+    refT[refLen] = t;
+    refK[refLen++] = k;
+  };
+  const buildRefs = () => {
+    tcount.fill(0);
+    for (let i = 0; i < F * 3; i++) tcount[tri[i]]++;
+    let start = 0;
+    for (let v = 0; v < numVerts; v++) { tstart[v] = start; start += tcount[v]; }
+    refLen = start;
+    tcount.fill(0);
+    for (let t = 0; t < F; t++) {
+      for (let k = 0; k < 3; k++) {
+        const v = tri[t * 3 + k];
+        const r = tstart[v] + tcount[v]++;
+        refT[r] = t;
+        refK[r] = k;
+      }
+    }
+  };
+
+  const updateNormal = (t: number) => {
+    const a = tri[t * 3] * 3, b = tri[t * 3 + 1] * 3, c = tri[t * 3 + 2] * 3;
+    const ux = pos[b] - pos[a], uy = pos[b + 1] - pos[a + 1], uz = pos[b + 2] - pos[a + 2];
+    const wx = pos[c] - pos[a], wy = pos[c + 1] - pos[a + 1], wz = pos[c + 2] - pos[a + 2];
+    const nx = uy * wz - uz * wy, ny = uz * wx - ux * wz, nz = ux * wy - uy * wx;
+    const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    const inv = len > 1e-12 ? 1 / len : 0;
+    tn[t * 3] = nx * inv; tn[t * 3 + 1] = ny * inv; tn[t * 3 + 2] = nz * inv;
+  };
+
+  // ── Edge cost: error of the best allowed position for (i0, i1) ──
+  const qs = new Float64Array(10);
+  const best = new Float64Array(3);
+  const edgeError = (i0: number, i1: number): number => {
+    for (let j = 0; j < 10; j++) qs[j] = q[i0 * 10 + j] + q[i1 * 10 + j];
+    const k0 = kind[i0], k1 = kind[i1];
+    const at = (v: number) => {
+      best[0] = pos[v * 3]; best[1] = pos[v * 3 + 1]; best[2] = pos[v * 3 + 2];
+      return quadricError(qs, best[0], best[1], best[2]);
+    };
+
+    if (k0 === FREE && k1 === FREE) {
+      // Optimal point: solve A·p = −b (Cramer), else best of ends and midpoint
+      const [a, b, c, d, e, f, g, h, i] = [qs[0], qs[1], qs[2], qs[1], qs[4], qs[5], qs[2], qs[5], qs[7]];
+      const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+      if (Math.abs(det) > 1e-9) {
+        const bx = -qs[3], by = -qs[6], bz = -qs[8];
+        const x = (bx * (e * i - f * h) - b * (by * i - f * bz) + c * (by * h - e * bz)) / det;
+        const y = (a * (by * i - f * bz) - bx * (d * i - f * g) + c * (d * bz - by * g)) / det;
+        const z = (a * (e * bz - by * h) - b * (d * bz - by * g) + bx * (d * h - e * g)) / det;
+        best[0] = x; best[1] = y; best[2] = z;
+        return quadricError(qs, x, y, z);
+      }
+      const mx = (pos[i0 * 3] + pos[i1 * 3]) / 2;
+      const my = (pos[i0 * 3 + 1] + pos[i1 * 3 + 1]) / 2;
+      const mz = (pos[i0 * 3 + 2] + pos[i1 * 3 + 2]) / 2;
+      const e0 = quadricError(qs, pos[i0 * 3], pos[i0 * 3 + 1], pos[i0 * 3 + 2]);
+      const e1 = quadricError(qs, pos[i1 * 3], pos[i1 * 3 + 1], pos[i1 * 3 + 2]);
+      const em = quadricError(qs, mx, my, mz);
+      if (em <= e0 && em <= e1) { best[0] = mx; best[1] = my; best[2] = mz; return em; }
+      return e0 <= e1 ? at(i0) : at(i1);
+    }
+    // One end constrained: the free end moves onto it
+    if (k0 === FREE) return at(i1);
+    if (k1 === FREE) return at(i0);
+    // Both constrained: only along their shared crease, onto a corner or
+    // onto the cheaper end
+    if ((k0 === CORNER && k1 === CORNER) || !isFeature(i0, i1)) return Infinity;
+    if (k0 === CORNER) return at(i0);
+    if (k1 === CORNER) return at(i1);
+    const e1 = at(i1);
+    const e0 = quadricError(qs, pos[i0 * 3], pos[i0 * 3 + 1], pos[i0 * 3 + 2]);
+    return e0 <= e1 ? at(i0) : e1;
+  };
+
+  const updateErrors = (t: number) => {
+    let min = Infinity;
+    for (let k = 0; k < 3; k++) {
+      const e = edgeError(tri[t * 3 + k], tri[t * 3 + (k + 1) % 3]);
+      err[t * 4 + k] = e;
+      if (e < min) min = e;
+    }
+    err[t * 4 + 3] = min;
+  };
+
+  // ── Initial quadrics, normals and feature edges ────────────────
+  for (let t = 0; t < F; t++) {
+    updateNormal(t);
+    const nx = tn[t * 3], ny = tn[t * 3 + 1], nz = tn[t * 3 + 2];
+    const a = tri[t * 3] * 3;
+    const d = -(nx * pos[a] + ny * pos[a + 1] + nz * pos[a + 2]);
+    const plane = [nx * nx, nx * ny, nx * nz, nx * d, ny * ny, ny * nz, ny * d, nz * nz, nz * d, d * d];
+    for (let k = 0; k < 3; k++) {
+      const o = tri[t * 3 + k] * 10;
+      for (let j = 0; j < 10; j++) q[o + j] += plane[j];
+    }
+  }
+  buildRefs();
+
+  const cosFeature = Math.cos((featureAngle * Math.PI) / 180);
+  for (let t = 0; t < F; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = tri[t * 3 + k], b = tri[t * 3 + (k + 1) % 3];
+      // Faces sharing edge a–b
+      let count = 0, other = -1;
+      for (let r = tstart[a]; r < tstart[a] + tcount[a]; r++) {
+        const s = refT[r];
+        if (tri[s * 3] === b || tri[s * 3 + 1] === b || tri[s * 3 + 2] === b) {
+          count++;
+          if (s !== t) other = s;
+        }
+      }
+      if (count !== 2) {
+        kind[a] = kind[b] = CORNER;             // open or non-manifold edge: lock
+      } else if (t < other) {
+        const dot = tn[t * 3] * tn[other * 3] + tn[t * 3 + 1] * tn[other * 3 + 1] + tn[t * 3 + 2] * tn[other * 3 + 2];
+        const degenerate = (tn[t * 3] === 0 && tn[t * 3 + 1] === 0 && tn[t * 3 + 2] === 0)
+          || (tn[other * 3] === 0 && tn[other * 3 + 1] === 0 && tn[other * 3 + 2] === 0);
+        if (!degenerate && dot < cosFeature) { addFeature(a, b); addFeature(b, a); }
+      }
+    }
+  }
+  for (const v of featNbr.keys()) classify(v);
+  for (let t = 0; t < F; t++) updateErrors(t);
+
+  // ── Collapse checks ────────────────────────────────────────────
+  const stamp = new Int32Array(numVerts);
+  let stampValue = 0;
+  // Link condition: an interior edge's endpoints share exactly two neighbours
+  const linkOk = (i0: number, i1: number): boolean => {
+    stampValue += 2;
+    for (let r = tstart[i0]; r < tstart[i0] + tcount[i0]; r++) {
+      const t = refT[r];
+      if (dead[t]) continue;
+      for (let k = 0; k < 3; k++) stamp[tri[t * 3 + k]] = stampValue;
+    }
+    let shared = 0;
+    for (let r = tstart[i1]; r < tstart[i1] + tcount[i1]; r++) {
+      const t = refT[r];
+      if (dead[t]) continue;
+      for (let k = 0; k < 3; k++) {
+        const w = tri[t * 3 + k];
+        if (w !== i0 && w !== i1 && stamp[w] === stampValue) { stamp[w] = stampValue + 1; shared++; }
+      }
+    }
+    return shared === 2;
+  };
+
+  let del0 = new Uint8Array(64), del1 = new Uint8Array(64);
+  // Would moving v to p flip or degenerate one of its faces not on edge v–other?
+  // Marks the faces that contain the edge (and so vanish) in `del`.
+  const flipped = (p: Float64Array, v: number, other: number, del: Uint8Array): boolean => {
+    for (let k = 0; k < tcount[v]; k++) {
+      const r = tstart[v] + k, t = refT[r];
+      if (dead[t]) continue;
+      const s = refK[r];
+      const a = tri[t * 3 + (s + 1) % 3], b = tri[t * 3 + (s + 2) % 3];
+      if (a === other || b === other) { del[k] = 1; continue; }
+      del[k] = 0;
+      let ux = pos[a * 3] - p[0], uy = pos[a * 3 + 1] - p[1], uz = pos[a * 3 + 2] - p[2];
+      let wx = pos[b * 3] - p[0], wy = pos[b * 3 + 1] - p[1], wz = pos[b * 3 + 2] - p[2];
+      const lu = Math.sqrt(ux * ux + uy * uy + uz * uz), lw = Math.sqrt(wx * wx + wy * wy + wz * wz);
+      if (lu < 1e-12 || lw < 1e-12) return true;
+      ux /= lu; uy /= lu; uz /= lu; wx /= lw; wy /= lw; wz /= lw;
+      if (Math.abs(ux * wx + uy * wy + uz * wz) > 0.999) return true;
+      const nx = uy * wz - uz * wy, ny = uz * wx - ux * wz, nz = ux * wy - uy * wx;
+      const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+      if ((nx * tn[t * 3] + ny * tn[t * 3 + 1] + nz * tn[t * 3 + 2]) / len < 0.2) return true;
+    }
+    return false;
+  };
+
+  // Re-point v's faces at i0 (dropping those in `del`) and append their refs
+  const updateTriangles = (i0: number, v: number, del: Uint8Array) => {
+    const start = tstart[v], count = tcount[v];
+    for (let k = 0; k < count; k++) {
+      const t = refT[start + k], s = refK[start + k];
+      if (dead[t]) continue;
+      if (del[k]) { dead[t] = 1; alive--; continue; }
+      tri[t * 3 + s] = i0;
+      dirty[t] = 1;
+      updateNormal(t);
+      updateErrors(t);
+      pushRef(t, s);
+    }
+  };
+
+  const compact = () => {
+    let dst = 0;
+    for (let t = 0; t < F; t++) {
+      if (dead[t]) continue;
+      if (dst !== t) {
+        tri.copyWithin(dst * 3, t * 3, t * 3 + 3);
+        err.copyWithin(dst * 4, t * 4, t * 4 + 4);
+        tn.copyWithin(dst * 3, t * 3, t * 3 + 3);
+      }
+      dst++;
+    }
+    F = dst;
+    dead.fill(0);
+  };
+
+  // ── Threshold sweeps ───────────────────────────────────────────
+  const lo = [Infinity, Infinity, Infinity], hi = [-Infinity, -Infinity, -Infinity];
+  for (let v = 0; v < numVerts; v++) {
+    for (let a = 0; a < 3; a++) {
+      lo[a] = Math.min(lo[a], pos[v * 3 + a]);
+      hi[a] = Math.max(hi[a], pos[v * 3 + a]);
+    }
+  }
+  const diag2 = numVerts > 0 ? hi.reduce((s, h, a) => s + (h - lo[a]) ** 2, 0) : 0;
+  const sweepAt = (i: number) => diag2 * 1e-12 * (i + 3) ** 7;
+  const p = new Float64Array(3);
+
+  for (let iteration = 0; alive > target; iteration++) {
+    if (iteration > 0 && iteration % 5 === 0) {
+      compact();
+      buildRefs();
+    }
+    dirty.fill(0);
+    const sweep = sweepAt(iteration);
+    const threshold = Math.min(sweep, tol2);
+    let collapsed = 0;
+
+    for (let t = 0; t < F && alive > target; t++) {
+      if (dead[t] || dirty[t] || err[t * 4 + 3] > threshold) continue;
+      for (let j = 0; j < 3; j++) {
+        if (err[t * 4 + j] > threshold) continue;
+        const i0 = tri[t * 3 + j], i1 = tri[t * 3 + (j + 1) % 3];
+        if (!(edgeError(i0, i1) <= threshold)) continue;
+        p.set(best);
+        if (!linkOk(i0, i1)) continue;
+
+        if (tcount[i0] > del0.length) del0 = new Uint8Array(tcount[i0] * 2);
+        if (tcount[i1] > del1.length) del1 = new Uint8Array(tcount[i1] * 2);
+        if (flipped(p, i0, i1, del0) || flipped(p, i1, i0, del1)) continue;
+
+        // Collapse i1 into i0
+        pos[i0 * 3] = p[0]; pos[i0 * 3 + 1] = p[1]; pos[i0 * 3 + 2] = p[2];
+        for (let k = 0; k < 10; k++) q[i0 * 10 + k] += q[i1 * 10 + k];
+        moved[i0] = moved[i1] = 1;
+        // i0 inherits i1's feature edges (and drops the collapsed one)
+        for (const w of featNbr.get(i1) ?? []) {
+          const back = featNbr.get(w)!;
+          back.splice(back.indexOf(i1), 1);
+          if (w !== i0) { addFeature(i0, w); addFeature(w, i0); }
+        }
+        featNbr.delete(i1);
+        if (kind[i1] === CORNER) kind[i0] = CORNER;
+        classify(i0);
+
+        const start = refLen;
+        updateTriangles(i0, i0, del0);
+        updateTriangles(i0, i1, del1);
+        tstart[i0] = start;
+        tcount[i0] = refLen - start;
+        collapsed++;
+        break;
+      }
+    }
+
+    const byCount = targetFaces !== undefined ? (facesBefore - alive) / Math.max(1, facesBefore - target) : 0;
+    const byError = tol2 < Infinity ? Math.log(threshold / sweepAt(0)) / Math.log(Math.max(tol2, sweepAt(1)) / sweepAt(0)) : 0;
+    onProgress?.(Math.min(99, 100 * Math.max(byCount, byError)));
+
+    // Done when nothing moved at the tolerance cap, or every edge is blocked
+    if (collapsed === 0 && (sweep >= tol2 || sweep > diag2)) break;
+  }
+  compact();
+
+  // ── Output: drop unused vertices ───────────────────────────────
+  const remap = new Int32Array(numVerts).fill(-1);
+  let outVerts = 0;
+  for (let i = 0; i < F * 3; i++) if (remap[tri[i]] < 0) remap[tri[i]] = outVerts++;
+  const vertices = new Float32Array(outVerts * 3);
+  for (let v = 0; v < numVerts; v++) {
+    if (remap[v] < 0) continue;
+    vertices[remap[v] * 3] = pos[v * 3];
+    vertices[remap[v] * 3 + 1] = pos[v * 3 + 1];
+    vertices[remap[v] * 3 + 2] = pos[v * 3 + 2];
+  }
+  const indices = new Uint32Array(F * 3);
+  for (let i = 0; i < F * 3; i++) indices[i] = remap[tri[i]];
+
+  const maxDeviation = maxDistanceToSurface(data.vertices, moved, vertices, indices);
+  onProgress?.(100);
+
+  const mesh: MeshData = {
+    vertices,
+    normals: computeVertexNormals(vertices, indices),
+    indices,
+    metrics: data.metrics,
+  };
+  return { mesh, facesBefore, facesAfter: F, maxDeviation };
+}
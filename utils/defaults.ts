@@ -0,0 +1,19 @@
+import { GenParams } from '../types';
+
+/** Starting parameters for the app and the CLI. */
+export const DEFAULT_PARAMS: GenParams = {
+  size: 100,               // mm — cube edge length
+  cellSize: 25,            // mm — target cell size (auto-snaps to integer count)
+                           //   100 / 25 = 4 cells → estWall ≈ 3.2mm, span ≈ 22mm
+  surfaceType: 'gyroid',   // TPMS family
+  wallThickness: 0.35,     // TPMS isovalue threshold (unitless)
+  // Structural boundary
+  useFrame: false,         // false = shell, true = edge-beam frame
+  shellThickness: 3.0,     // mm — hollow outer box wall thickness (shell mode)
+  frameBeamWidth: 10,      // mm — square beam cross-section (frame mode)
+  filletRadius: 1.0,       // mm — smooth blend between walls and shell/frame
+  // Quality / export
+  resolution: 60,          // voxels per axis (60³ ≈ 216k voxels)
+  smoothingIterations: 2,  // Taubin smoothing passes (optional)
+  makeManifold: false,     // (shell mode) seal port openings → watertight STL
+};
@@ -0,0 +1,78 @@
+import type { ByteSink } from './stlStream';
+
+/** Save a Blob under `filename` through a temporary link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** Trigger a browser download of in-memory file contents, whole or in chunks. */
+export function downloadFile(content: Uint8Array | string | Uint8Array[], filename: string, mimeType: string) {
+  downloadBlob(new Blob(Array.isArray(content) ? content : [content], { type: mimeType }), filename);
+}
+
+// File System Access API save picker (Chromium); not in the DOM typings
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+/**
+ * Sink for a download too large to build in memory.  With the File System
+ * Access API the bytes go straight to the file the user picks.  Elsewhere
+ * every chunk after the first becomes a Blob as soon as it is written (which
+ * browsers can page to disk) and the whole is downloaded on close; only the
+ * first chunk, the file header, stays in memory so it can be patched.  Call
+ * from a user gesture, since the picker needs one.  Resolves null when the
+ * user cancels the picker.
+ */
+export async function openDownloadSink(filename: string, mimeType: string): Promise<ByteSink | null> {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (picker) {
+    let handle: FileSystemFileHandle;
+    try {
+      const extension = filename.slice(filename.lastIndexOf('.'));
+      handle = await picker({ suggestedName: filename, types: [{ accept: { [mimeType]: [extension] } }] });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return null;
+      throw e;
+    }
+    const writable = await handle.createWritable();
+    return {
+      write: (chunk) => writable.write(chunk),
+      patch: (position, data) => writable.write({ type: 'write', position, data }),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  let header: Uint8Array | null = null;
+  let blobs: Blob[] = [];
+  return {
+    write: async (chunk) => {
+      if (header) blobs.push(new Blob([chunk]));
+      else header = chunk.slice();
+    },
+    patch: async (position, data) => {
+      if (!header || position + data.length > header.length) {
+        throw new Error('Only the first chunk written can be patched');
+      }
+      header.set(data, position);
+    },
+    close: async () => {
+      downloadBlob(new Blob(header ? [header, ...blobs] : blobs, { type: mimeType }), filename);
+      header = null;
+      blobs = [];
+    },
+    abort: async () => {
+      header = null;
+      blobs = [];
+    },
+  };
+}
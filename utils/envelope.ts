@@ -0,0 +1,173 @@
+import { Channel, EnvelopeType, GenParams, PortFace } from '../types';
+import { resolveBox } from './box';
+import { boxDist } from './sdf';
+import { AxisIndex, ResolvedPort, resolvePorts } from './ports';
+
+/**
+ * Outer envelopes for shell mode.
+ *
+ * Each envelope is fitted inside the part's bounding box and exposes signed
+ * distances (mm, negative inside) for:
+ *   dist(p, inset) — the solid envelope shrunk by `inset` mm
+ *   portA(p)       — region where the shell may open into channel A
+ *   portB(p)       — region where the shell may open into channel B
+ *   facePort(f, c) — the part of channel c's region opening through face f
+ *
+ * Port regions follow the layout in `params.ports` (see ./ports): on the box
+ * a port is its face; cylinders and hex prisms (axis Z) have end caps on ±Z
+ * and side sectors facing ±X / ±Y; a sphere has a polar cap per face
+ * direction.  Faces without a port stay sealed.
+ */
+export interface Envelope {
+  dist: (x: number, y: number, z: number, inset: number) => number;
+  portA: (x: number, y: number, z: number) => number;
+  portB: (x: number, y: number, z: number) => number;
+  facePort: (face: PortFace, channel: Channel) => (x: number, y: number, z: number) => number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+// Hexagon with flats at ±x (apothem a), rotated copies every 60°
+const hexDist = (x: number, y: number, a: number) => {
+  const ax = Math.abs(x), ay = Math.abs(y);
+  return Math.max(ax, 0.5 * ax + (SQRT3 / 2) * ay) - a;
+};
+
+/** Edge-beam frames only exist for the box envelope. */
+export const usesFrame = (params: GenParams): boolean =>
+  !!params.useFrame && (params.envelope ?? 'box') === 'box';
+
+/** Fitted size of each envelope inside the box: radius / apothem and half-height. */
+export function envelopeExtents(params: GenParams): { radius: number; halfHeight: number } {
+  const [hx, hy, hz] = resolveBox(params).half;
+  switch (params.envelope ?? 'box') {
+    case 'cylinder': return { radius: Math.min(hx, hy), halfHeight: hz };
+    case 'sphere':   return { radius: Math.min(hx, hy, hz), halfHeight: Math.min(hx, hy, hz) };
+    case 'hexPrism': return { radius: Math.min(hx, hy * SQRT3 / 2), halfHeight: hz };
+    default:         return { radius: Math.min(hx, hy), halfHeight: hz };
+  }
+}
+
+type Region = (x: number, y: number, z: number) => number;
+
+/**
+ * @param step grid spacing (mm) — port regions reach one grid layer past the
+ *             shell so openings always cut cleanly through it.
+ */
+export function createEnvelope(params: GenParams, step: number): Envelope {
+  const envelope: EnvelopeType = params.envelope ?? 'box';
+  const half = resolveBox(params).half;
+  const [hx, hy, hz] = half;
+  const { radius: R, halfHeight: H } = envelopeExtents(params);
+  const faceDepth  = params.shellThickness + step * 2;
+  const edgeMargin = params.shellThickness + step;
+
+  const ports = resolvePorts(params);
+  const faces = new Set(ports.map(p => p.face));
+  const FACE_NAMES: PortFace[][] = [['x-', 'x+'], ['y-', 'y+'], ['z-', 'z+']];
+
+  // Lateral extent of a port window (≤ 0 inside).  Window edges inside the
+  // face keep an edgeMargin seal.  On the box, edges on the face boundary
+  // keep faceDepth next to another port face (so neighbouring openings never
+  // meet at the edge) and edgeMargin next to a sealed face; curved envelopes
+  // seal their rims in the face region itself.
+  const windowLimit = (port: ResolvedPort) => {
+    const bound = (axis: AxisIndex, t: number, side: 0 | 1) => {
+      const h = half[axis];
+      if (Math.abs(t) < 1) return t * h + (side ? -edgeMargin : edgeMargin);
+      if (envelope !== 'box') return side ? Infinity : -Infinity;
+      const margin = faces.has(FACE_NAMES[axis][side]) ? faceDepth : edgeMargin;
+      return side ? h - margin : -(h - margin);
+    };
+    const [w0, w1, w2, w3] = port.window;
+    const u0 = bound(port.u, w0, 0), u1 = bound(port.u, w1, 1);
+    const v0 = bound(port.v, w2, 0), v1 = bound(port.v, w3, 1);
+    return (p: number[]) => Math.max(u0 - p[port.u], p[port.u] - u1, v0 - p[port.v], p[port.v] - v1);
+  };
+
+  // Region of the shell next to a port's face (≤ 0 inside), before windowing
+  const faceRegion = (port: ResolvedPort): ((p: number[]) => number) => {
+    const { axis: a, sign: s } = port;
+    const o = a === 0 ? 1 : 0;   // other lateral axis for the curved sides
+    switch (envelope) {
+      case 'cylinder':
+        if (a === 2) {
+          // End cap, keeping a sealed rim against the curved wall
+          return p => Math.max((H - faceDepth) - s * p[2], Math.hypot(p[0], p[1]) - (R - edgeMargin));
+        }
+        // Curved wall, the 90° sector facing the port direction
+        return p => Math.max(
+          (R - faceDepth) - Math.hypot(p[0], p[1]),
+          Math.abs(p[2]) - (H - faceDepth),
+          (Math.abs(p[o]) - s * p[a]) * Math.SQRT1_2,
+        );
+
+      case 'sphere':
+        // Cap where the port axis dominates
+        return p => (Math.max(Math.abs(p[port.u]), Math.abs(p[port.v])) - s * p[a]) * Math.SQRT1_2;
+
+      case 'hexPrism':
+        if (a === 2) {
+          return p => Math.max((H - faceDepth) - s * p[2], hexDist(p[0], p[1], R - edgeMargin));
+        }
+        // The 60° sector facing the port direction (a flat for ±X, a corner for ±Y)
+        return p => Math.max(
+          -hexDist(p[0], p[1], R - faceDepth),
+          Math.abs(p[2]) - (H - faceDepth),
+          (SQRT3 * Math.abs(p[o]) - s * p[a]) / 2,
+        );
+
+      default:
+        return p => (half[a] - faceDepth) - s * p[a];
+    }
+  };
+
+  // Union of the given ports' regions (Infinity everywhere when empty)
+  const portRegion = (selected: ResolvedPort[]): Region => {
+    const regions = selected.map(p => {
+      const face = faceRegion(p), limit = windowLimit(p);
+      return (q: number[]) => Math.max(face(q), limit(q));
+    });
+    const q = [0, 0, 0];
+    return (x, y, z) => {
+      q[0] = x; q[1] = y; q[2] = z;
+      let d = Infinity;
+      for (const r of regions) d = Math.min(d, r(q));
+      return d;
+    };
+  };
+
+  let dist: Envelope['dist'];
+  switch (envelope) {
+    case 'cylinder':
+      dist = (x, y, z, inset) => Math.max(Math.hypot(x, y) - (R - inset), Math.abs(z) - (H - inset));
+      break;
+    case 'sphere':
+      dist = (x, y, z, inset) => Math.hypot(x, y, z) - (R - inset);
+      break;
+    case 'hexPrism':
+      dist = (x, y, z, inset) => Math.max(hexDist(x, y, R - inset), Math.abs(z) - (H - inset));
+      break;
+    default:
+      dist = (x, y, z, inset) => boxDist(x, y, z, hx - inset, hy - inset, hz - inset);
+  }
+
+  return {
+    dist,
+    portA: portRegion(ports.filter(p => p.channel === 'a')),
+    portB: portRegion(ports.filter(p => p.channel === 'b')),
+    facePort: (face, channel) => portRegion(ports.filter(p => p.face === face && p.channel === channel)),
+  };
+}
+
+/** Enclosed volume of the (unshrunk) envelope in mm³. */
+export function envelopeVolume(params: GenParams): number {
+  const { dims } = resolveBox(params);
+  const { radius: R, halfHeight: H } = envelopeExtents(params);
+  switch (params.envelope ?? 'box') {
+    case 'cylinder': return Math.PI * R * R * 2 * H;
+    case 'sphere':   return (4 / 3) * Math.PI * R * R * R;
+    case 'hexPrism': return 2 * SQRT3 * R * R * 2 * H; // area = 2√3·a²
+    default:         return dims[0] * dims[1] * dims[2];
+  }
+}
@@ -0,0 +1,63 @@
+import { Channel, ExportFormat, GenParams, MeshData } from '../types';
+import { serializeASCIISTL, serializeSTL } from './stl';
+import { serializeOBJ } from './obj';
+import { serializePLY } from './ply';
+import { build3MF } from './threemf';
+import { boxLabel, resolveBox } from './box';
+
+/**
+ * Format-agnostic mesh export.  Serializers are pure (no DOM) and return
+ * file contents as byte chunks — text formats can outgrow a single string —
+ * which `downloadFile` in ./download or a file writer takes as they are.
+ */
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (data: MeshData, params: GenParams) => Uint8Array[];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  stl: {
+    label: 'STL (binary)', extension: 'stl', mimeType: 'model/stl',
+    serialize: (data) => [serializeSTL(data)],
+  },
+  'stl-ascii': {
+    label: 'STL (ASCII)', extension: 'stl', mimeType: 'model/stl',
+    serialize: (data, params) => serializeASCIISTL(data, params.surfaceType ?? 'gyroid'),
+  },
+  '3mf': {
+    label: '3MF', extension: '3mf', mimeType: 'model/3mf',
+    serialize: (data, params) => [build3MF(data, params)],
+  },
+  obj: {
+    label: 'OBJ', extension: 'obj', mimeType: 'model/obj',
+    serialize: (data, params) => serializeOBJ(data, params),
+  },
+  ply: {
+    label: 'PLY (binary)', extension: 'ply', mimeType: 'application/octet-stream',
+    serialize: (data) => [serializePLY(data)],
+  },
+};
+
+/** Formats that keep mesh groups — the CFD patch names of fluid domains. */
+export const GROUPED_FORMATS: ExportFormat[] = ['stl-ascii', 'obj'];
+
+/** Serialize `data` in the given format. Throws when the mesh has no triangles. */
+export function serializeMesh(data: MeshData, params: GenParams, format: ExportFormat): Uint8Array[] {
+  if (!data.indices || data.indices.length === 0) throw new Error('No triangles to export');
+  const info = EXPORT_FORMATS[format];
+  if (!info) throw new Error(`Unknown export format: ${format}`);
+  return info.serialize(data, params);
+}
+
+/** File name (without extension) describing the part, e.g. gyroid-100mm-cells4x4x4. */
+export function exportBasename(params: GenParams): string {
+  const box = resolveBox(params);
+  const cells = box.cellCounts.join('x');
+  return `${params.surfaceType ?? 'gyroid'}-${boxLabel(box)}-cells${cells}`;
+}
+
+/** File name (without extension) of one channel's fluid domain. */
+export const fluidBasename = (params: GenParams, channel: Channel): string =>
+  `${exportBasename(params)}-fluid-${channel}`;
@@ -0,0 +1,187 @@
+import { Channel, FluidDomains, GenParams, MeshData, MeshGroup, PortFace, ProgressCallback, Vec3 } from '../types';
+import { resolveBox } from './box';
+import { usesFrame } from './envelope';
+import { createImplicitModel, ImplicitModel } from './implicitModel';
+import {
+  computeVertexNormals, createLayerSampler, extractMainBody, marchCubes, sampleGrid, taubinSmooth,
+} from './marchingCubes';
+import { PORT_FACES, faceAxis, faceSign, resolvePorts } from './ports';
+
+/**
+ * CFD fluid domains — the void of each channel as its own closed mesh.
+ *
+ * Channel A's fluid is the void on the G > 0 side of the wall, channel B's
+ * the void on the G < 0 side, both clipped to the envelope: where the shell
+ * is sealed a domain ends at the inner shell surface, at a port it ends
+ * flush with the outer face.  The void is taken from the part's own field,
+ * so fillets and wall grading carry over; headers are not included.
+ *
+ * Triangles lying on the envelope surface are the flow boundaries and are
+ * grouped by port — 'inlet' / 'outlet', or 'open_xmin' … 'open_zmax' in
+ * frame mode where every face is open.  Everything else is 'wall'.
+ */
+
+const openPatch = (face: PortFace) => `open_${face[0]}${face[1] === '+' ? 'max' : 'min'}`;
+
+// Boundary triangles face within 60° of the envelope's outward normal
+const PATCH_COS = 0.5;
+
+// Group order in the output: walls, then the ports
+const PATCH_ORDER = ['wall', 'inlet', 'outlet', ...PORT_FACES.map(openPatch)];
+
+// Unit outward normal of the envelope surface (central differences)
+function envelopeNormal(model: ImplicitModel, x: number, y: number, z: number, h: number): Vec3 {
+  const d = model.envelope.dist;
+  const nx = d(x + h, y, z, 0) - d(x - h, y, z, 0);
+  const ny = d(x, y + h, z, 0) - d(x, y - h, z, 0);
+  const nz = d(x, y, z + h, 0) - d(x, y, z - h, 0);
+  const len = Math.hypot(nx, ny, nz) || 1;
+  return [nx / len, ny / len, nz / len];
+}
+
+/**
+ * Group the triangles of a fluid mesh into boundary patches.  Returns the
+ * indices reordered so each group is one consecutive run.
+ */
+function tagPatches(
+  params: GenParams,
+  model: ImplicitModel,
+  channel: Channel,
+  positions: Float32Array,
+  indices: Uint32Array,
+  step: number,
+): { indices: Uint32Array; groups: MeshGroup[]; onPatch: Uint8Array } {
+  const { half } = resolveBox(params);
+  const ports = usesFrame(params) ? [] : resolvePorts(params).filter(p => p.channel === channel);
+  const numVerts = positions.length / 3;
+  const numFaces = indices.length / 3;
+
+  // Vertices near the envelope surface.  MC only puts a port vertex on the
+  // face where the envelope term decides both samples of its edge; near a
+  // wall the wall term decides the inner one and the vertex lands up to a
+  // step off the face.  Sealed faces end at the inner shell surface, so the
+  // band stays under half the shell thickness.
+  const band = usesFrame(params) ? step : Math.min(step, params.shellThickness / 2);
+  const onEnvelope = new Uint8Array(numVerts);
+  for (let v = 0; v < numVerts; v++) {
+    const d = model.envelope.dist(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2], 0);
+    onEnvelope[v] = Math.abs(d) < band ? 1 : 0;
+  }
+
+  // Which port a boundary triangle belongs to: the face its normal points
+  // through, then the port window on that face containing it (or nearest)
+  const patchAt = (c: Vec3): string => {
+    const n = envelopeNormal(model, c[0], c[1], c[2], step * 0.01);
+    const a = Math.abs(n[0]) >= Math.abs(n[1]) && Math.abs(n[0]) >= Math.abs(n[2]) ? 0
+      : Math.abs(n[1]) >= Math.abs(n[2]) ? 1 : 2;
+    const face = `${'xyz'[a]}${n[a] > 0 ? '+' : '-'}` as PortFace;
+
+    let best: string | null = null, bestDist = Infinity;
+    for (const p of ports) {
+      if (faceAxis(p.face) !== a || faceSign(p.face) !== Math.sign(n[a])) continue;
+      const [u0, u1, v0, v1] = p.window;
+      const pu = c[p.u] / half[p.u], pv = c[p.v] / half[p.v];
+      const du = Math.max(u0 - pu, pu - u1, 0), dv = Math.max(v0 - pv, pv - v1, 0);
+      const dist = Math.hypot(du, dv);
+      if (dist < bestDist) { bestDist = dist; best = p.role; }
+    }
+    return best ?? openPatch(face);
+  };
+
+  // Boundary triangles lie in the band and face out through the envelope;
+  // walls meeting the face run across it
+  const faceGroup = new Uint8Array(numFaces);
+  const onPatch = new Uint8Array(numVerts);
+  const c: Vec3 = [0, 0, 0];
+  for (let f = 0; f < numFaces; f++) {
+    const i0 = indices[f * 3], i1 = indices[f * 3 + 1], i2 = indices[f * 3 + 2];
+    if (!(onEnvelope[i0] && onEnvelope[i1] && onEnvelope[i2])) continue;
+    for (let k = 0; k < 3; k++) {
+      c[k] = (positions[i0 * 3 + k] + positions[i1 * 3 + k] + positions[i2 * 3 + k]) / 3;
+    }
+    const e1 = [0, 1, 2].map(k => positions[i1 * 3 + k] - positions[i0 * 3 + k]);
+    const e2 = [0, 1, 2].map(k => positions[i2 * 3 + k] - positions[i0 * 3 + k]);
+    const fn = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+    const n = envelopeNormal(model, c[0], c[1], c[2], step * 0.01);
+    if (fn[0] * n[0] + fn[1] * n[1] + fn[2] * n[2] < PATCH_COS * Math.hypot(fn[0], fn[1], fn[2])) continue;
+    faceGroup[f] = PATCH_ORDER.indexOf(patchAt(c));
+    onPatch[i0] = onPatch[i1] = onPatch[i2] = 1;
+  }
+
+  // Counting sort by group
+  const counts = new Uint32Array(PATCH_ORDER.length);
+  for (let f = 0; f < numFaces; f++) counts[faceGroup[f]]++;
+  const groups: MeshGroup[] = [];
+  const next = new Uint32Array(PATCH_ORDER.length);
+  let start = 0;
+  PATCH_ORDER.forEach((name, g) => {
+    next[g] = start;
+    if (counts[g] > 0) groups.push({ name, start, count: counts[g] });
+    start += counts[g];
+  });
+  const sorted = new Uint32Array(indices.length);
+  for (let f = 0; f < numFaces; f++) {
+    const t = next[faceGroup[f]]++;
+    sorted[t * 3]     = indices[f * 3];
+    sorted[t * 3 + 1] = indices[f * 3 + 1];
+    sorted[t * 3 + 2] = indices[f * 3 + 2];
+  }
+  return { indices: sorted, groups, onPatch };
+}
+
+/**
+ * Mesh the fluid domains of both channels.  Runs the same grid, marching
+ * cubes and smoothing as the part itself, so the domains match the printed
+ * walls.  Yields between chunks; throws the signal's reason once it aborts.
+ */
+export async function generateFluidDomains(
+  params: GenParams,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<FluidDomains> {
+  const { smoothingIterations = 10 } = params;
+  const grid  = sampleGrid(params);
+  const { step } = grid;
+  const model = createImplicitModel(params, step);
+  const { envelope, toMM } = model;
+
+  // ── Void fields, negative inside each channel's fluid ──────────
+  // The G term splits the void by channel.  It is in mm like the other
+  // terms and zero on the far face of the wall, so inside the channel's own
+  // fluid it stays at least two half-walls below the wall term and cannot
+  // pull port-face vertices off the envelope.
+  const fluidField = (sideG: number) => createLayerSampler(grid, model, (x, y, z, G) => {
+    const channel = (sideG * G - model.wallThicknessAt(x, y, z)) * toMM;
+    const f = Math.max(-model.solid(x, y, z, G), envelope.dist(x, y, z, 0), channel);
+    return f > -1e-6 && f < 1e-6 ? 1e-6 : f;
+  });
+
+  const mesh = async (channel: Channel, sideG: number, from: number): Promise<MeshData> => {
+    const raw = await marchCubes(fluidField(sideG), grid, (p) => onProgress(from + p * 0.4), signal);
+    const body = extractMainBody(raw.positions, raw.indices);
+    const { indices, groups, onPatch } = tagPatches(params, model, channel, body.positions, body.indices, step);
+
+    // Smoothing pulls the patch rims off the face; put them back so every
+    // inlet and outlet stays flush with the envelope
+    const positions = taubinSmooth(body.positions, indices, smoothingIterations);
+    for (let v = 0; v < onPatch.length; v++) {
+      if (!onPatch[v]) continue;
+      const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
+      const d = envelope.dist(x, y, z, 0);
+      const n = envelopeNormal(model, x, y, z, step * 0.01);
+      positions[v * 3]     = x - d * n[0];
+      positions[v * 3 + 1] = y - d * n[1];
+      positions[v * 3 + 2] = z - d * n[2];
+    }
+
+    console.log(`Fluid domain ${channel.toUpperCase()}: ${positions.length / 3} verts, ` +
+      groups.map(g => `${g.name} ${g.count}`).join(', '));
+    onProgress(from + 50);
+    return { vertices: positions, normals: computeVertexNormals(positions, indices), indices, groups };
+  };
+
+  const a = await mesh('a', -1, 0);
+  const b = await mesh('b', 1, 50);
+  onProgress(100);
+  return { a, b };
+}
@@ -0,0 +1,204 @@
+import { PrinterProfile } from './printerProfiles';
+import { SliceOptions, Toolpath, layerCount } from './slicer';
+
+/**
+ * G-code for a sliced toolpath (see ./slicer) — every loop printed as one
+ * continuous bead, back to its start unless it is an open thin-wall bead,
+ * with retraction and optional Z-hop on travel.
+ *
+ * Output is absolute XYZ with relative extrusion (M83), emitted after the
+ * user's start script so it holds whatever that script sets.  E follows
+ * Slic3r's bead model (a rectangle with rounded sides) fed from a cylinder
+ * of `materialDiameter`: filament for FDM, the syringe or cartridge bore
+ * for paste.  Settings are kept in localStorage, merged onto the defaults
+ * when read.
+ */
+
+export interface GcodeSettings extends SliceOptions {
+  printSpeed: number;           // mm/s
+  firstLayerSpeed: number;      // mm/s
+  travelSpeed: number;          // mm/s
+  retractLength: number;        // mm of material; 0 disables retraction
+  retractSpeed: number;         // mm/s
+  zHop: number;                 // mm lifted while travelling retracted
+  materialDiameter: number;     // mm — filament, or syringe/cartridge bore
+  flow: number;                 // extrusion multiplier
+  bedCenter: [number, number];  // mm — where the part's XY centre lands
+  startScript: string;
+  endScript: string;
+}
+
+const STORAGE_KEY = 'gyroidgen.gcode';
+
+export const DEFAULT_GCODE: GcodeSettings = {
+  layerHeight: 0.2,
+  lineWidth: 0.45,
+  perimeters: 1,
+  printSpeed: 20,
+  firstLayerSpeed: 10,
+  travelSpeed: 60,
+  retractLength: 1,
+  retractSpeed: 20,
+  zHop: 0.5,
+  materialDiameter: 1.75,
+  flow: 1,
+  bedCenter: [110, 110],
+  startScript: 'G28 ; home all axes\nG1 Z5 F3000',
+  endScript: 'G91\nG1 Z10 F600 ; lift clear of the part\nG90\nM84 ; motors off',
+};
+
+// Travel shorter than this (line widths) stays within the bead: no retraction
+const RETRACT_MIN_TRAVEL = 2;
+
+/** The settings with bead size and bed centre taken from `profile`. */
+export const gcodeForProfile = (settings: GcodeSettings, profile: PrinterProfile): GcodeSettings => ({
+  ...settings,
+  layerHeight: profile.layerHeight,
+  lineWidth: profile.lineWidth,
+  bedCenter: [profile.buildVolume[0] / 2, profile.buildVolume[1] / 2],
+});
+
+/** The settings used last time, merged onto `base` (all of `base` when none were stored). */
+export function loadGcodeSettings(base: GcodeSettings = DEFAULT_GCODE): GcodeSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const settings: GcodeSettings = { ...base };
+    for (const key of Object.keys(DEFAULT_GCODE) as (keyof GcodeSettings)[]) {
+      const v = raw?.[key];
+      if (key === 'bedCenter') {
+        if (Array.isArray(v) && v.length === 2 && v.every(Number.isFinite)) settings.bedCenter = [v[0], v[1]];
+      } else if (typeof v === typeof DEFAULT_GCODE[key] && (typeof v === 'string' || Number.isFinite(v))) {
+        (settings as unknown as Record<string, unknown>)[key] = v;
+      }
+    }
+    return settings;
+  } catch {
+    return { ...base };
+  }
+}
+
+export function saveGcodeSettings(settings: GcodeSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // storage full or disabled — the settings just aren't remembered
+  }
+}
+
+/** Cross-section of one bead (mm²): w × h with semicircular sides. */
+export function beadArea(lineWidth: number, layerHeight: number): number {
+  return lineWidth >= layerHeight
+    ? (lineWidth - layerHeight) * layerHeight + (Math.PI * layerHeight * layerHeight) / 4
+    : lineWidth * layerHeight;
+}
+
+export interface ToolpathStats {
+  layers: number;
+  loops: number;
+  beads: number;          // loops that are single beads along thin walls
+  dropped: number;        // walls too short to print (see Toolpath)
+  printLength: number;    // mm extruded
+  travelLength: number;   // mm between loops
+  volume: number;         // mm³ deposited
+  seconds: number;        // at the set speeds, ignoring acceleration
+}
+
+// Each loop's length, and the travel from where the previous loop ended
+function walk(path: Toolpath, visit: (layer: number, loop: number, length: number, travel: number) => void) {
+  const { points, loopStart, layerStart, closed } = path;
+  for (let k = 0; k < layerCount(path); k++) {
+    for (let l = layerStart[k]; l < layerStart[k + 1]; l++) {
+      const a = loopStart[l], b = loopStart[l + 1];
+      let length = 0;
+      for (let i = a; i < (closed[l] ? b : b - 1); i++) {
+        const j = i + 1 < b ? i + 1 : a;
+        length += Math.hypot(points[j * 2] - points[i * 2], points[j * 2 + 1] - points[i * 2 + 1]);
+      }
+      const from = l > 0 ? (closed[l - 1] ? loopStart[l - 1] : a - 1) : -1;
+      const travel = from >= 0
+        ? Math.hypot(points[a * 2] - points[from * 2], points[a * 2 + 1] - points[from * 2 + 1])
+        : 0;
+      visit(k, l, length, travel);
+    }
+  }
+}
+
+export function toolpathStats(path: Toolpath, settings: GcodeSettings): ToolpathStats {
+  const stats: ToolpathStats = {
+    layers: layerCount(path), loops: path.loopStart.length - 1, beads: path.beads, dropped: path.dropped,
+    printLength: 0, travelLength: 0, volume: 0, seconds: 0,
+  };
+  walk(path, (layer, _loop, length, travel) => {
+    stats.printLength += length;
+    stats.travelLength += travel;
+    stats.seconds += length / (layer === 0 ? settings.firstLayerSpeed : settings.printSpeed)
+      + travel / settings.travelSpeed;
+  });
+  stats.volume = stats.printLength * beadArea(path.lineWidth, path.layerHeight);
+  return stats;
+}
+
+/** Print time as "42 min" or "3 h 5 min". */
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+/**
+ * G-code printing `path` with `settings`.  `title` lines are written as
+ * comments at the top.  Bead size and layer height come from the toolpath.
+ */
+export function writeGcode(path: Toolpath, settings: GcodeSettings, title: string[] = []): string {
+  const { points, loopStart, closed, layerHeight, lineWidth } = path;
+  const { retractLength, zHop, bedCenter } = settings;
+  const stats = toolpathStats(path, settings);
+
+  const materialArea = (Math.PI * settings.materialDiameter ** 2) / 4;
+  const ePerMM = (beadArea(lineWidth, layerHeight) * settings.flow) / materialArea;
+  const feed = (mmPerSecond: number) => `F${Math.round(mmPerSecond * 60)}`;
+  const xy = (i: number) =>
+    `X${(bedCenter[0] + points[i * 2]).toFixed(3)} Y${(bedCenter[1] + points[i * 2 + 1]).toFixed(3)}`;
+
+  const out: string[] = [
+    '; GyroidGen toolpath — units: mm',
+    ...title.map(line => `; ${line}`),
+    `; ${stats.layers} layers × ${layerHeight} mm, ${lineWidth} mm beads, ${settings.perimeters} perimeter(s)`,
+    `; ${stats.loops} loops (${stats.beads} thin-wall beads), ${(stats.printLength / 1000).toFixed(1)} m extruded, ` +
+      `${(stats.volume / 1000).toFixed(1)} cm³, about ${formatDuration(stats.seconds)}`,
+    settings.startScript.trim(),
+    'G21 ; millimetres',
+    'G90 ; absolute positioning',
+    'M83 ; relative extrusion',
+  ];
+
+  let z = 0;
+  walk(path, (layer, loop, _length, travel) => {
+    const start = loopStart[loop], end = loopStart[loop + 1];
+    const layerZ = (layer + 1) * layerHeight;
+    const newLayer = layerZ !== z;
+    if (newLayer) out.push(`; LAYER ${layer}`);
+
+    // Travel to the seam, retracted unless it is a short hop on the same layer
+    const retract = retractLength > 0 && (newLayer || travel > RETRACT_MIN_TRAVEL * lineWidth);
+    if (retract && loop > 0) {
+      out.push(`G1 E${(-retractLength).toFixed(5)} ${feed(settings.retractSpeed)}`);
+      if (zHop > 0) out.push(`G1 Z${(z + zHop).toFixed(3)} ${feed(settings.travelSpeed)}`);
+    }
+    out.push(`G0 ${xy(start)} ${feed(settings.travelSpeed)}`);
+    if (newLayer || (retract && zHop > 0 && loop > 0)) out.push(`G1 Z${layerZ.toFixed(3)}`);
+    if (retract && loop > 0) out.push(`G1 E${retractLength.toFixed(5)} ${feed(settings.retractSpeed)}`);
+    z = layerZ;
+
+    // Around the loop and back to the seam, or to the end of an open bead
+    out.push(`G1 ${feed(layer === 0 ? settings.firstLayerSpeed : settings.printSpeed)}`);
+    for (let i = start + 1; i <= (closed[loop] ? end : end - 1); i++) {
+      const p = i < end ? i : start, q = i - 1;
+      const step = Math.hypot(points[p * 2] - points[q * 2], points[p * 2 + 1] - points[q * 2 + 1]);
+      out.push(`G1 ${xy(p)} E${(step * ePerMM).toFixed(5)}`);
+    }
+  });
+
+  if (retractLength > 0) out.push(`G1 E${(-retractLength).toFixed(5)} ${feed(settings.retractSpeed)}`);
+  out.push(settings.endScript.trim(), '');
+  return out.join('\n');
+}
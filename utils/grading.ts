@@ -0,0 +1,67 @@
+import { GenParams, PortFace } from '../types';
+import { resolveBox } from './box';
+import { usesFrame } from './envelope';
+import { faceAxis, faceSign, PORT_FACES, portFaces } from './ports';
+
+/**
+ * Spatially graded wall density.
+ *
+ * The TPMS isovalue is interpolated from `wallThickness` (t = 0) to
+ * `wallThicknessEnd` (t = 1), where t depends on the gradient mode:
+ *   linear  — −axis face → +axis face
+ *   radial  — centre → face centres (clamped beyond; ellipsoidal in a box)
+ *   ports   — core centre → the faces carrying channel ports (see ./ports)
+ */
+
+/** Faces that carry channel ports. Frame mode leaves all six open. */
+export function openFaces(params: GenParams): PortFace[] {
+  return usesFrame(params) ? PORT_FACES : [...portFaces(params)];
+}
+
+/**
+ * Build an isovalue lookup `(x, y, z) → wallThickness` in world mm for the
+ * part's box centred on the origin.
+ */
+export function createWallGrading(params: GenParams): (x: number, y: number, z: number) => number {
+  const { wallThickness: w0, gradientMode = 'none', gradientAxis = 'z' } = params;
+  const w1 = params.wallThicknessEnd ?? w0;
+  const [hx, hy, hz] = resolveBox(params).half;
+  if (gradientMode === 'none' || w1 === w0) return () => w0;
+
+  const dw = w1 - w0;
+  switch (gradientMode) {
+    case 'linear': {
+      const a = gradientAxis === 'x' ? 0 : gradientAxis === 'y' ? 1 : 2;
+      const h = a === 0 ? hx : a === 1 ? hy : hz;
+      return (x, y, z) => {
+        const c = a === 0 ? x : a === 1 ? y : z;
+        const t = Math.min(1, Math.max(0, (c + h) / (2 * h)));
+        return w0 + dw * t;
+      };
+    }
+    case 'radial':
+      return (x, y, z) => {
+        const u = x / hx, v = y / hy, w = z / hz;
+        const t = Math.min(1, Math.sqrt(u * u + v * v + w * w));
+        return w0 + dw * t;
+      };
+    case 'ports': {
+      const half = [hx, hy, hz];
+      const faces = openFaces(params).map(f => ({ a: faceAxis(f), s: faceSign(f) }));
+      const p = [0, 0, 0];
+      return (x, y, z) => {
+        p[0] = x; p[1] = y; p[2] = z;
+        let t = 0;
+        for (const { a, s } of faces) t = Math.max(t, (s * p[a]) / half[a]);
+        return w0 + dw * Math.min(1, t);
+      };
+    }
+  }
+}
+
+/** Smallest and largest isovalue anywhere in the part. */
+export function wallThicknessRange(params: GenParams): { min: number; max: number } {
+  const w0 = params.wallThickness;
+  const w1 = (params.gradientMode ?? 'none') === 'none' ? w0 : (params.wallThicknessEnd ?? w0);
+  return { min: Math.min(w0, w1), max: Math.max(w0, w1) };
+}
@@ -0,0 +1,157 @@
+import { Axis, FittingType, GenParams } from '../types';
+import { resolveBox } from './box';
+import { usesFrame } from './envelope';
+import { AxisIndex, ResolvedPort, resolvePorts } from './ports';
+import { subtract } from './sdf';
+
+/**
+ * Inlet/outlet headers — a hollow plenum box over each port window of the
+ * shell (see ./ports), ending in a fitting on the face normal.  Ports that
+ * share a face with separate windows get separate headers, so counterflow
+ * layouts keep the two fluids apart.
+ *
+ * A header sits entirely outside the core (it starts at the face plane), so
+ * it can be unioned with the clipped core field without touching the port
+ * openings; its cavity reaches one grid step below the face so the plenum
+ * floor never collapses onto the core's outer surface.  The fitting bore
+ * runs from the plenum cavity out through the tube end.
+ *
+ * Headers need the box envelope and an open shell (not frame mode).
+ */
+
+export const FITTINGS: { id: FittingType; label: string }[] = [
+  { id: 'stub',   label: 'Pipe stub' },
+  { id: 'barb',   label: 'Hose barb' },
+  { id: 'flange', label: 'Flange' },
+];
+
+const AXIS_INDEX: Record<Axis, AxisIndex> = { x: 0, y: 1, z: 2 };
+
+/** Headers only exist in shell mode on the box envelope. */
+export const usesHeaders = (params: GenParams): boolean =>
+  !!params.headers && !usesFrame(params) && (params.envelope ?? 'box') === 'box';
+
+/** Ports that carry a header (empty when headers are off). */
+export function headerPorts(params: GenParams): ResolvedPort[] {
+  return usesHeaders(params) ? resolvePorts(params) : [];
+}
+
+interface FittingDims {
+  depth: number;        // plenum depth
+  wall: number;         // plenum / tube wall thickness
+  ro: number;           // tube outer radius
+  ri: number;           // bore radius
+  length: number;       // tube length beyond the plenum
+  barbHeight: number;
+  barbPitch: number;
+  flangeRadius: number;
+  flangeThickness: number;
+  boltRadius: number;   // bolt-hole radius
+  boltCircle: number;   // bolt-circle radius
+  boltCount: number;
+}
+
+// Resolve fitting dimensions for one header, clamped so the widest part of the
+// fitting stays inside the header footprint (the grid is not widened laterally).
+function fittingDims(params: GenParams, footprint: number): FittingDims {
+  const wall = params.shellThickness;
+  const depth = Math.max(params.headerDepth ?? 15, wall + 1);
+  const length = Math.max(params.fittingLength ?? 20, wall);
+  const fitting = params.fitting ?? 'stub';
+
+  let ro = (params.fittingDiameter ?? 20) / 2;
+  const boltRadius = Math.max(1.5, ro * 0.15);
+  const extra = fitting === 'flange' ? boltRadius * 6 : fitting === 'barb' ? ro * 0.15 : 0;
+  ro = Math.max(wall + 0.5, Math.min(ro, footprint - wall - extra));
+
+  return {
+    depth, wall, ro, length,
+    ri: Math.max(0.5, ro - wall),
+    barbHeight: ro * 0.15,
+    barbPitch: Math.max(ro * 0.8, 2),
+    flangeRadius: ro + boltRadius * 6,
+    flangeThickness: Math.max(wall, 3),
+    boltRadius,
+    boltCircle: ro + boltRadius * 3,
+    boltCount: Math.max(3, Math.round(params.boltCount ?? 4)),
+  };
+}
+
+/** How far (mm) headers and fittings reach beyond the box faces on `axis`. */
+export function headerReach(params: GenParams, axis: Axis): number {
+  if (!headerPorts(params).some(p => p.axis === AXIS_INDEX[axis])) return 0;
+  const d = fittingDims(params, Infinity);
+  return d.depth + d.length;
+}
+
+// Fitting outer solid in face-local coordinates: r = distance from the
+// fitting axis, s = distance beyond the plenum top, (u, w) = lateral coords
+function fittingSolid(fitting: FittingType, d: FittingDims, r: number, s: number, u: number, w: number): number {
+  const neck = Math.max(r - d.ro, -(s + d.wall), s - d.length);
+  switch (fitting) {
+    case 'barb': {
+      // Ramps rise from the tip towards the header, then drop: hoses slide on
+      // but not off.  Barbs cover the outer half of the tube.
+      const fromTip = d.length - s;
+      if (fromTip < 0 || fromTip > d.length / 2) return neck;
+      const ramp = (fromTip % d.barbPitch) / d.barbPitch;
+      return Math.max(r - (d.ro + d.barbHeight * ramp), -(s + d.wall), s - d.length);
+    }
+    case 'flange': {
+      let plate = Math.max(r - d.flangeRadius, (d.length - d.flangeThickness) - s, s - d.length);
+      for (let i = 0; i < d.boltCount; i++) {
+        const a = (i / d.boltCount) * 2 * Math.PI;
+        const hole = Math.hypot(u - d.boltCircle * Math.cos(a), w - d.boltCircle * Math.sin(a)) - d.boltRadius;
+        plate = subtract(plate, hole);
+      }
+      return Math.min(neck, plate);
+    }
+    default:
+      return neck;
+  }
+}
+
+/**
+ * Header field (mm, negative inside solid), or null when headers are off.
+ * @param step grid spacing (mm) — cavities and bores overshoot by one step.
+ */
+export function createHeaders(params: GenParams, step: number): ((x: number, y: number, z: number) => number) | null {
+  const ports = headerPorts(params);
+  if (ports.length === 0) return null;
+  const half = resolveBox(params).half;
+  const fitting = params.fitting ?? 'stub';
+
+  // Plenum footprint = the port window on the face, fitting at its centre
+  const headers = ports.map(({ axis: a, sign, u, v, window: [u0, u1, v0, v1] }) => {
+    const cu = ((u0 + u1) / 2) * half[u], cv = ((v0 + v1) / 2) * half[v];
+    const hu = ((u1 - u0) / 2) * half[u], hv = ((v1 - v0) / 2) * half[v];
+    const d = fittingDims(params, Math.min(hu, hv));
+    return { a, sign, u, v, cu, cv, hu, hv, d };
+  });
+
+  const p = [0, 0, 0];
+  return (x, y, z) => {
+    p[0] = x; p[1] = y; p[2] = z;
+    let result = Infinity;
+    for (const { a, sign, u, v, cu, cv, hu, hv, d } of headers) {
+      const n = sign * p[a] - half[a];                  // height above the face plane
+      if (n < -step) continue;                          // inside the core: never part of a header
+      const pu = p[u] - cu, pv = p[v] - cv;
+
+      const outer = Math.max(Math.abs(pu) - hu, Math.abs(pv) - hv, -n, n - d.depth);
+      const cavity = Math.max(
+        Math.abs(pu) - (hu - d.wall), Math.abs(pv) - (hv - d.wall),
+        -(n + step), n - (d.depth - d.wall),
+      );
+      const plenum = subtract(outer, cavity);
+
+      const r = Math.hypot(pu, pv);
+      const s = n - d.depth;                            // beyond the plenum top
+      const tube = fittingSolid(fitting, d, r, s, pu, pv);
+      const bore = Math.max(r - d.ri, -(s + d.wall + step), s - d.length - step);
+
+      result = Math.min(result, subtract(Math.min(plenum, tube), bore));
+    }
+    return result;
+  };
+}
@@ -0,0 +1,120 @@
+import { GenParams, Vec3 } from '../types';
+import { TPMS_FUNCTIONS, TPMS_MEAN_GRADIENT, TPMSFunction } from './tpms';
+import { intersect, subtract, union } from './sdf';
+import { createWallGrading } from './grading';
+import { resolveBox } from './box';
+import { createEnvelope, Envelope, usesFrame } from './envelope';
+import { createHeaders } from './headers';
+
+/**
+ * Point-wise implicit model of the part — the signed field that marching
+ * cubes meshes, split into its CSG terms so analysis passes can ask which
+ * term owns a point.
+ *
+ * All distances are approximate mm, NEGATIVE inside solid.  The field terms
+ * take the TPMS value G at the point as an argument so grid samplers can
+ * supply it from precomputed per-axis sin/cos tables; `tpms()` evaluates it
+ * directly for arbitrary points.
+ */
+export interface ImplicitModel {
+  surface: TPMSFunction;
+  scales: Vec3;                                 // phase radians per mm, per axis
+  toMM: number;                                 // TPMS value → approx. mm
+  envelope: Envelope;
+  tpms: (x: number, y: number, z: number) => number;
+  wallThicknessAt: (x: number, y: number, z: number) => number;
+  /** TPMS wall only (|G| ≤ wallThickness). */
+  wall: (x: number, y: number, z: number, G: number) => number;
+  /** Shell (with ports cut) or edge-beam frame, unclipped. */
+  structural: (x: number, y: number, z: number, G: number) => number;
+  /** Final part: wall ∪ structural, clipped to the outer envelope, ∪ headers. */
+  solid: (x: number, y: number, z: number, G: number) => number;
+}
+
+/**
+ * @param step grid spacing (mm) — sets how far port openings reach into
+ *             the shell (see createEnvelope).
+ */
+export function createImplicitModel(params: GenParams, step: number): ImplicitModel {
+  const {
+    surfaceType = 'gyroid', shellThickness,
+    frameBeamWidth = 10, makeManifold = false, filletRadius = 0,
+  } = params;
+
+  const surface = TPMS_FUNCTIONS[surfaceType];
+  if (!surface) throw new Error(`Unknown surface type: ${surfaceType}`);
+
+  const box = resolveBox(params);
+  const [hx, hy, hz] = box.half;
+  const scales = box.cellSizes.map(c => (2 * Math.PI) / c) as Vec3;
+  const [sx, sy, sz] = scales;
+
+  // TPMS value → approximate distance in mm (mean gradient on the surface)
+  const toMM = 3 / (TPMS_MEAN_GRADIENT * (sx + sy + sz));
+
+  const envelope = createEnvelope(params, step);
+  const wallAt   = createWallGrading(params);
+  const useFrame = usesFrame(params);
+  const headers  = createHeaders(params, step);
+
+  const tpms = (x: number, y: number, z: number) =>
+    surface(
+      Math.sin(x * sx), Math.cos(x * sx),
+      Math.sin(y * sy), Math.cos(y * sy),
+      Math.sin(z * sz), Math.cos(z * sz),
+    );
+
+  // Channel A is G > wallThickness, channel B is G < −wallThickness,
+  // the wall is everything in between (|G| <= wallThickness, any TPMS).
+  // The threshold may be graded with position.
+  const wall = (x: number, y: number, z: number, G: number) =>
+    (Math.abs(G) - wallAt(x, y, z)) * toMM;
+
+  const structural = (x: number, y: number, z: number, G: number): number => {
+    if (useFrame) {
+      // Frame mode — square beams along the 12 edges of the bounding box.
+      // A point is part of the frame when it lies within frameBeamWidth of
+      // TWO perpendicular box faces simultaneously (i.e. on an edge).
+      // This naturally produces:
+      //   • 12 solid beams (4 per axis direction)
+      //   • 8 solid corner blocks where three beams meet
+      //   • All 6 faces fully open (no shell on the flat faces)
+      const nearX = (hx - frameBeamWidth) - Math.abs(x);
+      const nearY = (hy - frameBeamWidth) - Math.abs(y);
+      const nearZ = (hz - frameBeamWidth) - Math.abs(z);
+      return Math.min(
+        intersect(nearX, nearY),
+        intersect(nearX, nearZ),
+        intersect(nearY, nearZ),
+      );
+    }
+
+    // Shell mode — hollow envelope (box, cylinder, sphere, hex prism)
+    // opened where each channel's ports are.  The port faces and their
+    // windows come from `params.ports` (crossflow by default, see ./ports);
+    // envelope.portA/portB give the regions, and only the channel's own
+    // fluid is let through each one.  Faces without a port stay sealed.
+    const shell = -envelope.dist(x, y, z, shellThickness);
+
+    // When makeManifold=true skip ALL openings → watertight STL.
+    if (makeManifold) return shell;
+    const wt = wallAt(x, y, z);
+    const openA = Math.max(envelope.portA(x, y, z), (wt - G) * toMM);
+    const openB = Math.max(envelope.portB(x, y, z), (G + wt) * toMM);
+    return subtract(shell, Math.min(openA, openB));
+  };
+
+  // Union wall + boundary, then clip to the outer envelope (the frame's
+  // envelope is the box itself).  Headers sit outside the envelope and are
+  // added after the clip.
+  const core = (x: number, y: number, z: number, G: number) =>
+    intersect(
+      union(wall(x, y, z, G), structural(x, y, z, G), filletRadius),
+      envelope.dist(x, y, z, 0),
+    );
+  const solid = headers
+    ? (x: number, y: number, z: number, G: number) => Math.min(core(x, y, z, G), headers(x, y, z))
+    : core;
+
+  return { surface, scales, toMM, envelope, tpms, wallThicknessAt: wallAt, wall, structural, solid };
+}
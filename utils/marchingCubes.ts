@@ -1,15 +1,23 @@
 import { EDGE_TABLE, TRI_TABLE } from '../constants';
-import { GenParams, MeshData, ProgressCallback } from '../types';
+import { Axis, GenParams, MeshData, ProgressCallback } from '../types';
+import { checkedBox } from './box';
+import { usesFrame } from './envelope';
+import { createImplicitModel, ImplicitModel } from './implicitModel';
+import { headerReach } from './headers';
+import { ChannelSamples, computeExchangerMetrics } from './metrics';
 
 /**
  * Marching Cubes with edge vertex caching — produces a proper indexed mesh
  * where adjacent triangles share vertex indices, resulting in manifold geometry.
  *
  * The approach mirrors skimage.measure.marching_cubes which the Python script uses:
- *   1. Build a binary solid field (matching the Python's boolean logic)
- *   2. Run marching cubes with edge-based vertex deduplication
+ *   1. Build a signed scalar field — TPMS wall, shell/frame and ports are
+ *      combined with implicit CSG (min/max, optional smooth-min fillet)
+ *   2. Run marching cubes with edge-based vertex deduplication; vertices are
+ *      interpolated onto the true isosurface, not snapped to edge midpoints
  *   3. Apply Taubin smoothing on the indexed mesh
  *   4. Compute smooth per-vertex normals from face normals
+ *   5. Measure channel volumes, wetted areas and port openings (./metrics)
  */
 
 // MC corner offsets: corner i is at (dX[i], dY[i], dZ[i]) relative to cube origin
@@ -37,7 +45,7 @@ const EDGE_DIR          = [0, 1, 0, 1, 0, 1, 0, 1, 2, 2, 2, 2];
 // ─────────────────────────────────────────────────────────────────
 // Taubin smoothing on indexed mesh (no shrinkage, unlike Laplacian)
 // ─────────────────────────────────────────────────────────────────
-function taubinSmooth(
+export function taubinSmooth(
   positions: Float32Array,
   indices: Uint32Array,
   iterations: number,
@@ -47,28 +55,34 @@ function taubinSmooth(
   const numVerts = positions.length / 3;
   const result = new Float32Array(positions);
 
-  // Build adjacency from face indices
-  const adjOffset = new Uint32Array(numVerts + 1); // CSR row pointers
-  const adjTemp: number[][] = new Array(numVerts);
-  for (let i = 0; i < numVerts; i++) adjTemp[i] = [];
+  // Build adjacency (CSR) from face indices: every corner lists the other
+  // two vertices of its face
+  const adjOffset = new Uint32Array(numVerts + 1);
+  for (let i = 0; i < indices.length; i++) adjOffset[indices[i] + 1] += 2;
+  for (let v = 0; v < numVerts; v++) adjOffset[v + 1] += adjOffset[v];
+  const adj = new Uint32Array(adjOffset[numVerts]);
+  const fill = adjOffset.slice(0, numVerts);
 
   const numFaces = indices.length / 3;
   for (let f = 0; f < numFaces; f++) {
     const a = indices[f * 3], b = indices[f * 3 + 1], c = indices[f * 3 + 2];
-    adjTemp[a].push(b, c);
-    adjTemp[b].push(a, c);
-    adjTemp[c].push(a, b);
+    adj[fill[a]++] = b; adj[fill[a]++] = c;
+    adj[fill[b]++] = a; adj[fill[b]++] = c;
+    adj[fill[c]++] = a; adj[fill[c]++] = b;
   }
 
-  // Deduplicate neighbors and build CSR
-  const adjList: number[] = [];
+  // Deduplicate neighbors in place (first occurrence wins)
+  const seen = new Int32Array(numVerts).fill(-1);
+  let w = 0;
   for (let v = 0; v < numVerts; v++) {
-    const unique = [...new Set(adjTemp[v])];
-    adjOffset[v] = adjList.length;
-    for (const n of unique) adjList.push(n);
+    const start = adjOffset[v], end = adjOffset[v + 1];
+    adjOffset[v] = w;
+    for (let j = start; j < end; j++) {
+      const n = adj[j];
+      if (seen[n] !== v) { seen[n] = v; adj[w++] = n; }
+    }
   }
-  adjOffset[numVerts] = adjList.length;
-  const adj = new Uint32Array(adjList);
+  adjOffset[numVerts] = w;
 
   // Taubin parameters
   const lambda = 0.5;
@@ -104,7 +118,7 @@ function taubinSmooth(
 // ─────────────────────────────────────────────────────────────────
 // Compute smooth per-vertex normals (area-weighted face normals)
 // ─────────────────────────────────────────────────────────────────
-function computeVertexNormals(pos: Float32Array, idx: Uint32Array): Float32Array {
+export function computeVertexNormals(pos: Float32Array, idx: Uint32Array): Float32Array {
   const numVerts = pos.length / 3;
   const normals = new Float32Array(numVerts * 3);
   const numFaces = idx.length / 3;
@@ -144,9 +158,13 @@ function computeVertexNormals(pos: Float32Array, idx: Uint32Array): Float32Array
 }
 
 // ─────────────────────────────────────────────────────────────────
-// Extract largest connected component (via triangle flood-fill)
+// Extract the main body (via triangle flood-fill): the largest outward-
+// facing component plus every inward-facing one.  Inward components are
+// cavity walls — e.g. the sealed channels of a manifold shell, whose
+// surfaces never touch the outer skin — and must survive; stray floating
+// fragments face outward and are dropped.
 // ─────────────────────────────────────────────────────────────────
-function extractLargestComponent(
+export function extractMainBody(
   positions: Float32Array,
   indices: Uint32Array,
 ): { positions: Float32Array; indices: Uint32Array } {
@@ -154,51 +172,78 @@ function extractLargestComponent(
   const numFaces = indices.length / 3;
   if (numFaces < 100) return { positions, indices };
 
-  // vertex → list of face indices
-  const vertFaces: number[][] = new Array(numVerts);
-  for (let v = 0; v < numVerts; v++) vertFaces[v] = [];
-  for (let f = 0; f < numFaces; f++) {
-    vertFaces[indices[f * 3]].push(f);
-    vertFaces[indices[f * 3 + 1]].push(f);
-    vertFaces[indices[f * 3 + 2]].push(f);
-  }
-
+  // vertex → face indices (CSR)
+  const vfOffset = new Uint32Array(numVerts + 1);
+  for (let i = 0; i < indices.length; i++) vfOffset[indices[i] + 1]++;
+  for (let v = 0; v < numVerts; v++) vfOffset[v + 1] += vfOffset[v];
+  const vertFaces = new Uint32Array(indices.length);
+  const fill = vfOffset.slice(0, numVerts);
+  for (let i = 0; i < indices.length; i++) vertFaces[fill[indices[i]]++] = (i / 3) | 0;
+
+  // Signed volume ×6 of the tetrahedron (origin, face)
+  const faceVolume = (f: number) => {
+    const a = indices[f * 3] * 3, b = indices[f * 3 + 1] * 3, c = indices[f * 3 + 2] * 3;
+    const p = positions;
+    return p[a]     * (p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1])
+         - p[a + 1] * (p[b]     * p[c + 2] - p[b + 2] * p[c])
+         + p[a + 2] * (p[b]     * p[c + 1] - p[b + 1] * p[c]);
+  };
+
+  // Flood-fill: `order` lists faces component by component, in visit order
   const visited = new Uint8Array(numFaces);
-  let bestComp: number[] = [];
+  const stack = new Uint32Array(numFaces);
+  const order = new Uint32Array(numFaces);
+  const compStart: number[] = [];
+  let visitedCount = 0;
+  let best = -1, bestSize = 0;
+  const cavities: number[] = [];
 
   for (let seed = 0; seed < numFaces; seed++) {
     if (visited[seed]) continue;
-    const comp: number[] = [];
-    const stack = [seed];
+    const id = compStart.length;
+    compStart.push(visitedCount);
+    let top = 0;
+    stack[top++] = seed;
     visited[seed] = 1;
+    let volume = 0;
 
-    while (stack.length > 0) {
-      const f = stack.pop()!;
-      comp.push(f);
+    while (top > 0) {
+      const f = stack[--top];
+      order[visitedCount++] = f;
+      volume += faceVolume(f);
       // Neighbours share at least one vertex
       for (let k = 0; k < 3; k++) {
         const v = indices[f * 3 + k];
-        for (const nf of vertFaces[v]) {
-          if (!visited[nf]) { visited[nf] = 1; stack.push(nf); }
+        for (let j = vfOffset[v]; j < vfOffset[v + 1]; j++) {
+          const nf = vertFaces[j];
+          if (!visited[nf]) { visited[nf] = 1; stack[top++] = nf; }
         }
       }
     }
-    if (comp.length > bestComp.length) bestComp = comp;
+    const size = visitedCount - compStart[id];
+    if (volume < 0) cavities.push(id);
+    else if (size > bestSize) { best = id; bestSize = size; }
   }
+  compStart.push(visitedCount);
 
-  if (bestComp.length === numFaces) return { positions, indices }; // already single component
+  const keep = best >= 0 ? [best, ...cavities] : cavities;
+  const keptFaces = keep.reduce((n, id) => n + compStart[id + 1] - compStart[id], 0);
+  if (keptFaces === numFaces) return { positions, indices }; // nothing to drop
 
-  // Build compact mesh for largest component
-  const faceSet = new Set(bestComp);
+  // Build compact mesh for the kept components
   const vertMap = new Int32Array(numVerts).fill(-1);
   let newVertCount = 0;
-  const newIdx: number[] = [];
+  const newIdx = new Uint32Array(keptFaces * 3);
+  let n = 0;
 
-  for (const f of bestComp) {
-    for (let k = 0; k < 3; k++) {
-      const v = indices[f * 3 + k];
-      if (vertMap[v] === -1) vertMap[v] = newVertCount++;
-      newIdx.push(vertMap[v]);
+  for (const id of keep) {
+    for (let j = compStart[id]; j < compStart[id + 1]; j++) {
+      const f = order[j];
+      for (let k = 0; k < 3; k++) {
+        const v = indices[f * 3 + k];
+        if (vertMap[v] === -1) vertMap[v] = newVertCount++;
+        newIdx[n++] = vertMap[v];
+      }
     }
   }
 
@@ -211,199 +256,183 @@ function extractLargestComponent(
     }
   }
 
-  return { positions: newPos, indices: new Uint32Array(newIdx) };
+  return { positions: newPos, indices: newIdx };
 }
 
 // ═════════════════════════════════════════════════════════════════
-// Main entry point
+// Sample grid and field sampling (shared with ./fluidDomains)
 // ═════════════════════════════════════════════════════════════════
-export async function generateGyroidMesh(
-  params: GenParams,
-  onProgress: ProgressCallback,
-): Promise<MeshData> {
-  const {
-    size, cellSize, wallThickness, shellThickness,
-    useFrame = false, frameBeamWidth = 10,
-    resolution, smoothingIterations = 10,
-    makeManifold = false,
-  } = params;
-
-  // Validate
-  if (!cellSize || cellSize <= 0) throw new Error('Invalid cell size');
-  if (!resolution || resolution <= 0) throw new Error('Invalid resolution');
-  if (!size || size <= 0) throw new Error('Invalid size');
-
-  // ── Auto-snap: fit an integer number of complete cells in the volume ─
-  // This forces each face to terminate at the same gyroid phase, creating
-  // symmetric port patterns and solid column-forming intersections at all
-  // faces rather than arbitrary partial-cell overhangs.
-  const snappedCellCount = Math.max(1, Math.round(size / cellSize));
-  const snappedCellSize  = size / snappedCellCount;
-  if (Math.abs(snappedCellSize - cellSize) > 0.1) {
-    console.log(`Cell size snapped: ${cellSize.toFixed(2)} → ${snappedCellSize.toFixed(2)} mm (${snappedCellCount} cells)`);
-  }
-  const scale  = (2 * Math.PI) / snappedCellSize;
-  const res    = Math.floor(resolution);
-  const step   = size / res;
-  const half   = size / 2;
-  const np     = res + 1;            // grid points per axis
-  const np2    = np * np;
-  const total  = np * np * np;
-
-  // ── 1. Build binary solid field (matching Python script) ───────
-
-  const solidField = new Uint8Array(total);
-  const faceDepth  = shellThickness + step * 2;
-
-  // Pre-compute per-axis coordinates once
-  const mmCoords  = new Float32Array(np);
-  const radCoords = new Float32Array(np);
-  for (let i = 0; i < np; i++) {
-    mmCoords[i]  = -half + i * step;
-    radCoords[i] = mmCoords[i] * scale;
-  }
 
-  // Pre-compute sin/cos for every grid coordinate once (huge speed-up)
-  const sinRad = new Float32Array(np);
-  const cosRad = new Float32Array(np);
-  for (let i = 0; i < np; i++) {
-    sinRad[i] = Math.sin(radCoords[i]);
-    cosRad[i] = Math.cos(radCoords[i]);
-  }
+/** Cubic sample grid covering the part, padded beyond every face. */
+export interface SampleGrid {
+  step: number;                         // voxel edge (mm)
+  nx: number; ny: number; nz: number;   // grid points per axis
+  ox: number; oy: number; oz: number;   // world coordinate of grid index 0
+}
 
-  onProgress(5);
-  const CHUNK = 100_000;
-
-  for (let start = 0; start < total; start += CHUNK) {
-    const end = Math.min(start + CHUNK, total);
-
-    for (let idx = start; idx < end; idx++) {
-      const zi = (idx / np2) | 0;
-      const rem = idx - zi * np2;
-      const yi = (rem / np) | 0;
-      const xi = rem - yi * np;
-
-      const xMM = mmCoords[xi], yMM = mmCoords[yi], zMM = mmCoords[zi];
-
-      // Gyroid: G = sin(x)cos(y) + sin(y)cos(z) + sin(z)cos(x)
-      const G = sinRad[xi] * cosRad[yi]
-              + sinRad[yi] * cosRad[zi]
-              + sinRad[zi] * cosRad[xi];
-
-      const channelA   = G > wallThickness;
-      const channelB   = G < -wallThickness;
-      const gyroidWall = !channelA && !channelB; // |G| <= wallThickness
-
-      // ─── Structural boundary: frame or shell ─────────────────────
-      let structural: boolean;
-
-      if (useFrame) {
-        // Frame mode — square beams along the 12 edges of the bounding cube.
-        // A voxel is part of the frame when it lies within frameBeamWidth of
-        // TWO perpendicular cube faces simultaneously (i.e. on an edge).
-        // This naturally produces:
-        //   • 12 solid beams (4 per axis direction)
-        //   • 8 solid corner blocks where three beams meet
-        //   • All 6 faces fully open (no shell on the flat faces)
-        const bw     = frameBeamWidth;
-        const nearX  = Math.abs(xMM) >= half - bw;
-        const nearY  = Math.abs(yMM) >= half - bw;
-        const nearZ  = Math.abs(zMM) >= half - bw;
-        structural = (nearX && nearY) || (nearX && nearZ) || (nearY && nearZ);
-      } else {
-        // Shell mode — hollow outer box with crossflow port openings.
-        // Channel A exits via Z faces (top / bottom).
-        // Channel B exits via X faces (left / right).
-        // Y faces are fully sealed.
-        const inInner = Math.abs(xMM) <= half - shellThickness
-                     && Math.abs(yMM) <= half - shellThickness
-                     && Math.abs(zMM) <= half - shellThickness;
-        structural = !inInner;
-
-        // When makeManifold=true skip ALL openings → watertight STL.
-        if (structural && !makeManifold) {
-          const zFace = zMM < -half + faceDepth || zMM > half - faceDepth;
-          const xFace = xMM < -half + faceDepth || xMM > half - faceDepth;
-
-          // Edge seal: keep solid within edgeMargin of the sealed Y faces
-          const edgeMargin = shellThickness + step;
-          const nearYEdge  = yMM < -half + edgeMargin || yMM > half - edgeMargin;
-
-          const openA = zFace && !xFace && !nearYEdge && channelA;
-          const openB = xFace && !zFace && !nearYEdge && channelB;
-          if (openA || openB) structural = false;
-        }
-      }
+/** Validate the box parameters and lay out the sample grid. */
+export function sampleGrid(params: GenParams): SampleGrid {
+  const { resolution } = params;
 
-      solidField[idx] = (structural || gyroidWall) ? 1 : 0;
-    }
+  // ── Auto-snap: fit an integer number of complete cells along each axis ─
+  // This forces each face to terminate at the same TPMS phase, creating
+  // symmetric port patterns and solid column-forming intersections at all
+  // faces rather than arbitrary partial-cell overhangs.
+  const box = checkedBox(params);
+  if (!resolution || resolution <= 0) throw new Error('Invalid resolution');
 
-    // Yield to main thread occasionally
-    if ((start / CHUNK) % 3 === 0) {
-      onProgress(5 + (start / total) * 25);
-      await new Promise(r => setTimeout(r, 0));
+  const targets = params.cellSizes ?? [params.cellSize, params.cellSize, params.cellSize];
+  for (let a = 0; a < 3; a++) {
+    if (Math.abs(box.cellSizes[a] - targets[a]) > 0.1) {
+      console.log(`Cell size ${'XYZ'[a]} snapped: ${targets[a].toFixed(2)} → ${box.cellSizes[a].toFixed(2)} mm (${box.cellCounts[a]} cells)`);
     }
   }
+  const res    = Math.floor(resolution);
+  const step   = Math.max(...box.dims) / res; // cubic voxels, `res` along the longest edge
+
+  // The sample grid is padded by at least half a step beyond each face, so
+  // the outer box surface falls *between* samples and MC places it exactly
+  // at ±half on every axis.  Headers widen the grid by whole steps on both
+  // sides, which keeps that alignment.
+  const gridPoints = (a: number, axis: Axis) =>
+    Math.ceil(box.dims[a] / step) + 2 + 2 * Math.ceil(headerReach(params, axis) / step);
+  const nx = gridPoints(0, 'x');
+  const ny = gridPoints(1, 'y');
+  const nz = gridPoints(2, 'z');
+  return {
+    step, nx, ny, nz,
+    ox: -(nx - 1) * step / 2,
+    oy: -(ny - 1) * step / 2,
+    oz: -(nz - 1) * step / 2,
+  };
+}
 
-  onProgress(28);
+/** Fills `out` (nx·ny values, x fastest) with the field on grid layer `z`. */
+export type LayerSampler = (z: number, out: Float32Array) => void;
 
-  // ── 1b. Void the grid boundary layer ──────────────────────────
-  // MC can only generate surface at solid↔void transitions *within* the
-  // grid.  Solid voxels sitting at the outermost grid layer have no
-  // neighbour beyond them, so MC never creates a face there.
-  // By zeroing the boundary layer we give MC a transition to work with.
-  // • Frame beams get proper outer faces (fixes "negative-space" look)
-  // • Gyroid wall gets clean caps where it meets each cube face
-  // • Channels (already void) are unaffected
-  for (let a = 0; a < np; a++) {
-    for (let b = 0; b < np; b++) {
-      // X-boundary faces  (x = 0  and  x = res)
-      solidField[0   + a * np + b * np2] = 0;
-      solidField[res + a * np + b * np2] = 0;
-      // Y-boundary faces  (y = 0  and  y = res)
-      solidField[a + 0          + b * np2] = 0;
-      solidField[a + res * np   + b * np2] = 0;
-      // Z-boundary faces  (z = 0  and  z = res)
-      solidField[a + b * np              ] = 0;
-      solidField[a + b * np + res * np2  ] = 0;
+/**
+ * Sampler evaluating `value` at every grid point of a layer, given its
+ * world position and TPMS value.
+ */
+export function createLayerSampler(
+  grid: SampleGrid,
+  model: ImplicitModel,
+  value: (x: number, y: number, z: number, G: number) => number,
+): LayerSampler {
+  const { step, nx, ny, nz } = grid;
+  const { surface, scales } = model;
+
+  // Pre-compute per-axis coordinates and sin/cos once (huge speed-up)
+  const axisTables = (n: number, o: number, sc: number) => {
+    const mm  = new Float32Array(n);
+    const sin = new Float32Array(n);
+    const cos = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      mm[i]  = o + i * step;
+      sin[i] = Math.sin(mm[i] * sc);
+      cos[i] = Math.cos(mm[i] * sc);
     }
-  }
-
-  onProgress(30);
+    return { mm, sin, cos };
+  };
+  const X = axisTables(nx, grid.ox, scales[0]);
+  const Y = axisTables(ny, grid.oy, scales[1]);
+  const Z = axisTables(nz, grid.oz, scales[2]);
+
+  return (zi, out) => {
+    const zMM = Z.mm[zi], sz = Z.sin[zi], cz = Z.cos[zi];
+    for (let yi = 0, idx = 0; yi < ny; yi++) {
+      for (let xi = 0; xi < nx; xi++, idx++) {
+        // TPMS level set, e.g. gyroid G = sin(x)cos(y) + sin(y)cos(z) + sin(z)cos(x)
+        const G = surface(X.sin[xi], X.cos[xi], Y.sin[yi], Y.cos[yi], sz, cz);
+        out[idx] = value(X.mm[xi], Y.mm[yi], zMM, G);
+      }
+    }
+  };
+}
 
-  // ── 2. Marching cubes with edge vertex deduplication ───────────
+// Append-only typed buffer that doubles its capacity when full
+function growable<T extends Float32Array | Uint32Array>(create: (length: number) => T) {
+  let data = create(1 << 16);
+  let length = 0;
+  return {
+    push3(a: number, b: number, c: number) {
+      if (length + 3 > data.length) {
+        const grown = create(data.length * 2);
+        grown.set(data);
+        data = grown;
+      }
+      data[length++] = a;
+      data[length++] = b;
+      data[length++] = c;
+    },
+    get length() { return length; },
+    /** Contents, without copying (valid until the next push). */
+    view(): T { return data.subarray(0, length) as T; },
+    clear() { length = 0; },
+    /** Trimmed copy of the contents. */
+    toArray(): T { return data.slice(0, length) as T; },
+  };
+}
 
-  // Corner index offsets relative to cube-origin grid index
+// ═════════════════════════════════════════════════════════════════
+// Marching cubes with edge vertex deduplication, slab by slab
+// Surfaces the zero level of the sampled field, facing the positive side.
+// Only two field layers and two layers of edge cache are alive at a time,
+// so memory scales with nx·ny rather than the whole grid; each layer is
+// sampled exactly once.  Progress is reported 0–100.
+//
+// With `onSlab`, each slab's triangles are handed over as a triangle soup
+// (9 floats per triangle) and then dropped, so output memory stays bounded
+// too; the returned mesh is empty in that case.
+// ═════════════════════════════════════════════════════════════════
+export async function marchCubes(
+  sample: LayerSampler,
+  grid: SampleGrid,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+  onSlab?: (triangles: Float32Array) => void | Promise<void>,
+): Promise<{ positions: Float32Array; indices: Uint32Array }> {
+  const { step, nx, ny, nz, ox, oy, oz } = grid;
+  const nxy = nx * ny;
+
+  // Field on the slab's bottom (z) and top (z + 1) layers
+  let below = new Float32Array(nxy);
+  let above = new Float32Array(nxy);
+
+  // Edge vertex caches: layerIndex → vertex index.  X and Y edges lie in a
+  // layer (bottom and top are kept), Z edges span the current slab.
+  let xBelow = new Int32Array(nxy).fill(-1), xAbove = new Int32Array(nxy);
+  let yBelow = new Int32Array(nxy).fill(-1), yAbove = new Int32Array(nxy);
+  const zSlab = new Int32Array(nxy);
+
+  // Corner offsets within a layer
   const cornerOff = new Int32Array(8);
-  for (let c = 0; c < 8; c++) cornerOff[c] = dX[c] + dY[c] * np + dZ[c] * np2;
-
-  // Edge vertex caches (one per axis direction): gridIndex → vertex index
-  const cacheX = new Int32Array(total).fill(-1);
-  const cacheY = new Int32Array(total).fill(-1);
-  const cacheZ = new Int32Array(total).fill(-1);
-  const caches = [cacheX, cacheY, cacheZ];
-  const axisDelta = [1, np, np2]; // grid-index step for each axis
+  for (let c = 0; c < 8; c++) cornerOff[c] = dX[c] + dY[c] * nx;
 
   // Output buffers
-  const positions: number[] = [];
-  const faceIndices: number[] = [];
+  const positions = growable((n) => new Float32Array(n));
+  const faceIndices = growable((n) => new Uint32Array(n));
 
-  const val = new Float32Array(8);           // corner signed values for current cube
+  const corner = new Float32Array(8);
+  const ev = new Int32Array(12);
+  let z = 0;
 
   // Helper: get-or-create vertex on a given edge of the current cube
   function getEdgeVertex(edge: number, c0: number): number {
     const cacheCorner = EDGE_CACHE_CORNER[edge];
     const dir         = EDGE_DIR[edge];
+    const top         = dZ[cacheCorner];       // Z edges always start on the bottom layer
     const baseIdx     = c0 + cornerOff[cacheCorner];
-    const cache       = caches[dir];
+    const cache       = dir === 2 ? zSlab
+      : dir === 0 ? (top ? xAbove : xBelow)
+      : (top ? yAbove : yBelow);
 
     if (cache[baseIdx] >= 0) return cache[baseIdx]; // already cached
 
     // Interpolate between the two endpoints of this edge
-    const endA = baseIdx;
-    const endB = baseIdx + axisDelta[dir];
-    const fA = solidField[endA] === 1 ? -1 : 1;
-    const fB = solidField[endB] === 1 ? -1 : 1;
+    const layer = top ? above : below;
+    const fA = layer[baseIdx];
+    const fB = dir === 2 ? above[baseIdx] : layer[baseIdx + (dir === 0 ? 1 : nx)];
 
     let mu = 0.5;
     const diff = fB - fA;
@@ -412,58 +441,56 @@ export async function generateGyroidMesh(
       if (mu < 0) mu = 0; else if (mu > 1) mu = 1;
     }
 
-    // Decompose base grid index → (gx, gy, gz)
-    const gz = (baseIdx / np2) | 0;
-    const gy = ((baseIdx - gz * np2) / np) | 0;
-    const gx = baseIdx - gz * np2 - gy * np;
+    // Decompose layer index → (gx, gy); gz from the slab
+    const gy = (baseIdx / nx) | 0;
+    const gx = baseIdx - gy * nx;
+    const gz = z + top;
 
     // World position (centered)
-    let wx: number, wy: number, wz: number;
+    const vertIdx = positions.length / 3;
     if (dir === 0) {      // X-edge
-      wx = -half + (gx + mu) * step;
-      wy = -half + gy * step;
-      wz = -half + gz * step;
+      positions.push3(ox + (gx + mu) * step, oy + gy * step, oz + gz * step);
     } else if (dir === 1) { // Y-edge
-      wx = -half + gx * step;
-      wy = -half + (gy + mu) * step;
-      wz = -half + gz * step;
+      positions.push3(ox + gx * step, oy + (gy + mu) * step, oz + gz * step);
     } else {               // Z-edge
-      wx = -half + gx * step;
-      wy = -half + gy * step;
-      wz = -half + (gz + mu) * step;
+      positions.push3(ox + gx * step, oy + gy * step, oz + (gz + mu) * step);
     }
-
-    const vertIdx = positions.length / 3;
-    positions.push(wx, wy, wz);
     cache[baseIdx] = vertIdx;
     return vertIdx;
   }
 
-  // Walk every cube in the grid
-  for (let z = 0; z < res; z++) {
-    if (z % Math.max(1, (res / 20) | 0) === 0) {
-      onProgress(30 + (z / res) * 45);
+  sample(0, below);
+
+  // Walk every slab, then every cube in it
+  const cubesZ = nz - 1;
+  for (z = 0; z < cubesZ; z++) {
+    if (z % Math.max(1, (cubesZ / 20) | 0) === 0) {
+      onProgress((z / cubesZ) * 100);
       await new Promise(r => setTimeout(r, 0));
+      signal?.throwIfAborted();
     }
 
-    for (let y = 0; y < res; y++) {
-      for (let x = 0; x < res; x++) {
-        const c0 = x + y * np + z * np2;
+    sample(z + 1, above);
+    xAbove.fill(-1);
+    yAbove.fill(-1);
+    zSlab.fill(-1);
+
+    for (let y = 0; y < ny - 1; y++) {
+      for (let x = 0; x < nx - 1; x++) {
+        const c0 = x + y * nx;
 
         // Build cube index (bit set ↔ corner is outside / void)
         let cubeIndex = 0;
         for (let c = 0; c < 8; c++) {
-          const gIdx = c0 + cornerOff[c];
-          const s = solidField[gIdx];
-          val[c] = s === 1 ? -1 : 1;
-          if (s === 0) cubeIndex |= (1 << c);
+          corner[c] = (c < 4 ? below : above)[c0 + cornerOff[c]];
+          if (corner[c] > 0) cubeIndex |= (1 << c);
         }
 
         const edges = EDGE_TABLE[cubeIndex];
         if (edges === 0) continue;
 
         // Resolve vertices for each active edge
-        const ev = new Int32Array(12).fill(-1);
+        ev.fill(-1);
         for (let e = 0; e < 12; e++) {
           if (edges & (1 << e)) ev[e] = getEdgeVertex(e, c0);
         }
@@ -476,27 +503,109 @@ export async function generateGyroidMesh(
           const e2 = TRI_TABLE[tBase + t + 1];
           const e3 = TRI_TABLE[tBase + t + 2];
           if (ev[e1] < 0 || ev[e2] < 0 || ev[e3] < 0) continue;
-          faceIndices.push(ev[e1], ev[e2], ev[e3]);
+          faceIndices.push3(ev[e1], ev[e2], ev[e3]);
+        }
+      }
+    }
+
+    // The top layer becomes the next slab's bottom
+    [below, above] = [above, below];
+    [xBelow, xAbove] = [xAbove, xBelow];
+    [yBelow, yAbove] = [yAbove, yBelow];
+
+    if (onSlab) {
+      const pos = positions.view(), idx = faceIndices.view();
+      const triangles = new Float32Array(idx.length * 3);
+      for (let i = 0; i < idx.length; i++) {
+        const v = idx[i] * 3;
+        triangles[i * 3]     = pos[v];
+        triangles[i * 3 + 1] = pos[v + 1];
+        triangles[i * 3 + 2] = pos[v + 2];
+      }
+      await onSlab(triangles);
+
+      // Only the vertices on the new bottom layer are looked up again
+      const kept = pos.slice();
+      positions.clear();
+      faceIndices.clear();
+      for (const cache of [xBelow, yBelow]) {
+        for (let i = 0; i < nxy; i++) {
+          if (cache[i] < 0) continue;
+          const v = cache[i] * 3;
+          cache[i] = positions.length / 3;
+          positions.push3(kept[v], kept[v + 1], kept[v + 2]);
         }
       }
     }
   }
 
-  onProgress(75);
+  return { positions: positions.toArray(), indices: faceIndices.toArray() };
+}
+
+// Part field (implicit CSG, mm, < 0 = solid): TPMS wall ∪ shell/frame,
+// clipped to the envelope (see implicitModel).  Fluid samples inside the
+// envelope are counted into `channelSamples` for the volume metrics.
+function partSampler(grid: SampleGrid, model: ImplicitModel, channelSamples?: ChannelSamples): LayerSampler {
+  const { envelope } = model;
+  return createLayerSampler(grid, model, (x, y, z, G) => {
+    let f = model.solid(x, y, z, G);
+    // Keep samples off the exact isovalue so no vertex collapses onto a
+    // grid point (which would duplicate it across neighbouring edges).
+    if (f > -1e-6 && f < 1e-6) f = 1e-6;
+
+    if (channelSamples && f > 0 && envelope.dist(x, y, z, 0) < 0) {
+      if (G > 0) channelSamples.a++;
+      else channelSamples.b++;
+    }
+    return f;
+  });
+}
+
+// ═════════════════════════════════════════════════════════════════
+// Main entry point
+// Yields between chunks; if `signal` aborts, the next yield throws its reason.
+// ═════════════════════════════════════════════════════════════════
+export async function generateGyroidMesh(
+  params: GenParams,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<MeshData> {
+  const { smoothingIterations = 10 } = params;
+  const grid  = sampleGrid(params);
+  const { step } = grid;
+
+  // ── 1. Signed scalar field (implicit CSG, mm, < 0 = solid) ─────
+  // Sampled layer by layer as marching cubes advances, never stored whole.
+
+  const model    = createImplicitModel(params, step);
+  const useFrame = usesFrame(params);
+  const channelSamples: ChannelSamples = { a: 0, b: 0 };
+  const sample   = partSampler(grid, model, channelSamples);
+
+  // The padded outer layer always lies outside the box (f ≥ step/2), so MC
+  // finds a solid↔void transition at every face:
+  // • Frame beams get proper outer faces
+  // • TPMS wall gets clean caps where it meets each cube face
+  // • Channels (already void) are unaffected
 
-  let posArr = new Float32Array(positions);
-  let idxArr = new Uint32Array(faceIndices);
+  onProgress(5);
+
+  // ── 2. Marching cubes with edge vertex deduplication ───────────
+  let { positions: posArr, indices: idxArr } =
+    await marchCubes(sample, grid, (p) => onProgress(5 + p * 0.7), signal);
+
+  onProgress(75);
 
   console.log(`MC indexed mesh: ${posArr.length / 3} unique verts, ${idxArr.length / 3} faces`);
 
-  // ── 3. Extract largest connected component ─────────────────────
+  // ── 3. Extract the main body ───────────────────────────────────
   // Skip in frame mode: the 12 edge beams and the gyroid wall network are
   // two separate closed mesh components (solid-field union with no guaranteed
   // topological adjacency).  Discarding the "smaller" component would remove
   // the beams — the exact bug the user saw as "frame drawn in negative space".
   // In shell mode the filter still removes stray floating fragments.
   if (!useFrame) {
-    ({ positions: posArr, indices: idxArr } = extractLargestComponent(posArr, idxArr));
+    ({ positions: posArr, indices: idxArr } = extractMainBody(posArr, idxArr));
     console.log(`After component extraction: ${posArr.length / 3} verts, ${idxArr.length / 3} faces`);
   } else {
     console.log(`Frame mode — keeping all components: ${posArr.length / 3} verts, ${idxArr.length / 3} faces`);
@@ -512,7 +621,30 @@ export async function generateGyroidMesh(
 
   // ── 5. Compute smooth vertex normals ───────────────────────────
   const normals = computeVertexNormals(posArr, idxArr);
+  onProgress(95);
+
+  // ── 6. Heat-exchanger metrics ──────────────────────────────────
+  const mesh: MeshData = { vertices: posArr, normals, indices: idxArr };
+  mesh.metrics = computeExchangerMetrics(params, model, mesh, channelSamples, step);
   onProgress(100);
 
-  return { vertices: posArr, normals, indices: idxArr };
+  return mesh;
+}
+
+/**
+ * Stream the part's raw marching-cubes surface slab by slab, never holding
+ * the whole mesh.  Component filtering, smoothing and metrics all need the
+ * full mesh, so none of them run here.  `onSlab` receives each slab's
+ * triangles as a soup (9 floats per triangle); progress is reported 0–100.
+ */
+export async function streamGyroidMesh(
+  params: GenParams,
+  onSlab: (triangles: Float32Array) => void | Promise<void>,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<void> {
+  const grid = sampleGrid(params);
+  const model = createImplicitModel(params, grid.step);
+  await marchCubes(partSampler(grid, model), grid, onProgress, signal, onSlab);
+  onProgress(100);
 }
@@ -0,0 +1,177 @@
+import { MeshData, Vec3 } from '../types';
+import { labelComponents } from './meshTopology';
+
+/**
+ * Mesh integrity report — manifoldness, watertightness and basic measures.
+ *
+ * Edges are undirected vertex pairs.  On a closed, consistently oriented
+ * 2-manifold every edge is used by exactly two faces, once in each direction,
+ * and the faces around every vertex form a single fan.
+ */
+export interface MeshReport {
+  vertexCount: number;          // vertices referenced by at least one face
+  faceCount: number;
+  edgeCount: number;
+  degenerateFaces: number;      // faces repeating a vertex index
+  boundaryEdges: number;        // used by one face
+  nonManifoldEdges: number;     // used by three or more faces
+  flippedEdges: number;         // two faces traversing the edge the same way
+  nonManifoldVertices: number;  // faces around the vertex form several fans
+  components: number;
+  eulerCharacteristic: number;  // V − E + F
+  genus: number | null;         // only defined for closed manifolds
+  volume: number;               // mm³, signed (positive for outward winding)
+  area: number;                 // mm²
+  bboxMin: Vec3;
+  bboxMax: Vec3;
+  watertight: boolean;
+  /** Vertex index pairs of boundary, non-manifold and flipped edges. */
+  problemEdges: Uint32Array;
+}
+
+// Open-addressing hash over undirected edges (key = lo · V + hi)
+const EMPTY = -1;
+
+export function analyzeMesh(mesh: MeshData): MeshReport {
+  const { vertices: pos, indices: idx } = mesh;
+  const numVerts = pos.length / 3;
+  const numFaces = idx.length / 3;
+
+  let tableSize = 1;
+  while (tableSize < numFaces * 3) tableSize <<= 1;
+  tableSize <<= 1; // load factor ≤ 0.5
+  const mask = tableSize - 1;
+  const keys = new Float64Array(tableSize).fill(EMPTY);
+  const firstHalfEdge = new Int32Array(tableSize);
+  const uses = new Uint16Array(tableSize);
+  const forward = new Uint16Array(tableSize); // uses traversed lo → hi
+
+  // Face corners c = f·3 + k; corners of one vertex are merged when their
+  // faces share an edge through it, leaving one root per fan.
+  const parent = new Int32Array(numFaces * 3);
+  for (let c = 0; c < parent.length; c++) parent[c] = c;
+  const find = (c: number): number => {
+    while (parent[c] !== c) {
+      parent[c] = parent[parent[c]];
+      c = parent[c];
+    }
+    return c;
+  };
+  const unite = (a: number, b: number) => {
+    const ra = find(a), rb = find(b);
+    if (ra !== rb) parent[ra] = rb;
+  };
+
+  let degenerateFaces = 0;
+  let volume6 = 0, area2 = 0;
+
+  for (let f = 0; f < numFaces; f++) {
+    const i0 = idx[f * 3], i1 = idx[f * 3 + 1], i2 = idx[f * 3 + 2];
+    if (i0 === i1 || i1 === i2 || i0 === i2) { degenerateFaces++; continue; }
+
+    const x0 = pos[i0 * 3], y0 = pos[i0 * 3 + 1], z0 = pos[i0 * 3 + 2];
+    const x1 = pos[i1 * 3], y1 = pos[i1 * 3 + 1], z1 = pos[i1 * 3 + 2];
+    const x2 = pos[i2 * 3], y2 = pos[i2 * 3 + 1], z2 = pos[i2 * 3 + 2];
+    // Signed tetrahedron volume against the origin
+    volume6 += x0 * (y1 * z2 - z1 * y2) - y0 * (x1 * z2 - z1 * x2) + z0 * (x1 * y2 - y1 * x2);
+    const ax = x1 - x0, ay = y1 - y0, az = z1 - z0;
+    const bx = x2 - x0, by = y2 - y0, bz = z2 - z0;
+    const cx = ay * bz - az * by, cy = az * bx - ax * bz, cz = ax * by - ay * bx;
+    area2 += Math.sqrt(cx * cx + cy * cy + cz * cz);
+
+    for (let k = 0; k < 3; k++) {
+      const h = f * 3 + k;
+      const hn = f * 3 + (k + 1) % 3;
+      const a = idx[h], b = idx[hn];
+      const lo = a < b ? a : b, hi = a < b ? b : a;
+      const key = lo * numVerts + hi;
+
+      let slot = (Math.imul(lo, 0x9e3779b1) ^ Math.imul(hi, 0x85ebca6b)) & mask;
+      while (keys[slot] !== EMPTY && keys[slot] !== key) slot = (slot + 1) & mask;
+
+      if (keys[slot] === EMPTY) {
+        keys[slot] = key;
+        firstHalfEdge[slot] = h;
+      } else {
+        // Join the corners at a and b with the matching corners of the
+        // first face on this edge
+        const g = firstHalfEdge[slot];
+        const gs = g, gn = (g - g % 3) + (g % 3 + 1) % 3;
+        if (idx[gs] === a) { unite(h, gs); unite(hn, gn); }
+        else { unite(h, gn); unite(hn, gs); }
+      }
+      if (uses[slot] < 0xffff) uses[slot]++;
+      if (a < b && forward[slot] < 0xffff) forward[slot]++;
+    }
+  }
+
+  let edgeCount = 0, boundaryEdges = 0, nonManifoldEdges = 0, flippedEdges = 0;
+  const problems: number[] = [];
+  for (let s = 0; s < tableSize; s++) {
+    if (keys[s] === EMPTY) continue;
+    edgeCount++;
+    const n = uses[s];
+    let bad = true;
+    if (n === 1) boundaryEdges++;
+    else if (n > 2) nonManifoldEdges++;
+    else if (forward[s] !== 1) flippedEdges++;
+    else bad = false;
+    if (bad) {
+      const lo = Math.floor(keys[s] / numVerts);
+      problems.push(lo, keys[s] - lo * numVerts);
+    }
+  }
+
+  // Vertices: referenced count, fan count, bounding box
+  const fanRoot = new Int32Array(numVerts).fill(-1);
+  const nonManifold = new Uint8Array(numVerts);
+  let nonManifoldVertices = 0, vertexCount = 0;
+  const bboxMin: Vec3 = [Infinity, Infinity, Infinity];
+  const bboxMax: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let c = 0; c < numFaces * 3; c++) {
+    const f = (c - c % 3) / 3;
+    if (idx[f * 3] === idx[f * 3 + 1] || idx[f * 3 + 1] === idx[f * 3 + 2] || idx[f * 3] === idx[f * 3 + 2]) continue;
+    const v = idx[c];
+    const r = find(c);
+    if (fanRoot[v] < 0) {
+      fanRoot[v] = r;
+      vertexCount++;
+      for (let a = 0; a < 3; a++) {
+        const p = pos[v * 3 + a];
+        if (p < bboxMin[a]) bboxMin[a] = p;
+        if (p > bboxMax[a]) bboxMax[a] = p;
+      }
+    } else if (fanRoot[v] !== r && !nonManifold[v]) {
+      nonManifold[v] = 1;
+      nonManifoldVertices++;
+    }
+  }
+  if (vertexCount === 0) {
+    bboxMin.fill(0);
+    bboxMax.fill(0);
+  }
+
+  // Components among referenced vertices
+  const { labels, count } = labelComponents(mesh);
+  const seen = new Uint8Array(count);
+  let components = 0;
+  for (let v = 0; v < numVerts; v++) {
+    if (fanRoot[v] >= 0 && !seen[labels[v]]) { seen[labels[v]] = 1; components++; }
+  }
+
+  const faceCount = numFaces - degenerateFaces;
+  const eulerCharacteristic = vertexCount - edgeCount + faceCount;
+  const watertight = boundaryEdges === 0 && nonManifoldEdges === 0 && flippedEdges === 0
+    && nonManifoldVertices === 0;
+  // Closed orientable surfaces: χ = Σ (2 − 2gᵢ) over components
+  const genus = watertight ? (2 * components - eulerCharacteristic) / 2 : null;
+
+  return {
+    vertexCount, faceCount, edgeCount, degenerateFaces,
+    boundaryEdges, nonManifoldEdges, flippedEdges, nonManifoldVertices,
+    components, eulerCharacteristic, genus,
+    volume: volume6 / 6, area: area2 / 2,
+    bboxMin, bboxMax, watertight,
+    problemEdges: new Uint32Array(problems),
+  };
+}
@@ -0,0 +1,69 @@
+import { MeshData } from '../types';
+
+/**
+ * Label every vertex with its connected-component id (union-find over the
+ * triangle edges).  Returns the labels and the component count; unused
+ * vertices get their own component.
+ */
+export function labelComponents(mesh: MeshData): { labels: Int32Array; count: number } {
+  const numVerts = mesh.vertices.length / 3;
+  const parent = new Int32Array(numVerts);
+  for (let v = 0; v < numVerts; v++) parent[v] = v;
+
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]]; // path halving
+      v = parent[v];
+    }
+    return v;
+  };
+  const unite = (a: number, b: number) => {
+    const ra = find(a), rb = find(b);
+    if (ra !== rb) parent[ra] = rb;
+  };
+
+  const idx = mesh.indices;
+  for (let f = 0; f < idx.length; f += 3) {
+    unite(idx[f], idx[f + 1]);
+    unite(idx[f], idx[f + 2]);
+  }
+
+  const labels = new Int32Array(numVerts).fill(-1);
+  const rootLabel = new Int32Array(numVerts).fill(-1);
+  let count = 0;
+  for (let v = 0; v < numVerts; v++) {
+    const r = find(v);
+    if (rootLabel[r] < 0) rootLabel[r] = count++;
+    labels[v] = rootLabel[r];
+  }
+  return { labels, count };
+}
+
+/** Compact copy of the faces whose `faceMask` entry is non-zero. */
+export function subMesh(mesh: MeshData, faceMask: Uint8Array): MeshData {
+  const idx = mesh.indices;
+  const remap = new Int32Array(mesh.vertices.length / 3).fill(-1);
+  const verts: number[] = [];
+  const out: number[] = [];
+
+  for (let f = 0; f < faceMask.length; f++) {
+    if (!faceMask[f]) continue;
+    for (let k = 0; k < 3; k++) {
+      const v = idx[f * 3 + k];
+      if (remap[v] < 0) {
+        remap[v] = verts.length;
+        verts.push(v);
+      }
+      out.push(remap[v]);
+    }
+  }
+
+  const vertices = new Float32Array(verts.length * 3);
+  const normals = new Float32Array(verts.length * 3);
+  for (let i = 0; i < verts.length; i++) {
+    const v = verts[i];
+    vertices.set(mesh.vertices.subarray(v * 3, v * 3 + 3), i * 3);
+    normals.set(mesh.normals.subarray(v * 3, v * 3 + 3), i * 3);
+  }
+  return { vertices, normals, indices: new Uint32Array(out) };
+}
@@ -0,0 +1,53 @@
+import { MeshData } from '../types';
+import { generateGyroidMesh } from './marchingCubes';
+import { generateFluidDomains } from './fluidDomains';
+import { decimateMesh } from './decimate';
+import { streamPartSTL } from './stlStream';
+import { measureWallThickness } from './wallThickness';
+import { analyzeMesh } from './meshIntegrity';
+import { slicePart } from './slicer';
+import type { WorkerRequest, WorkerResponse } from './meshWorkerClient';
+
+/**
+ * Web Worker entry point — runs the mesh pipeline off the main thread.
+ * One worker handles one generation; the client terminates it to cancel.
+ */
+const post = (msg: WorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(msg, { transfer });
+
+// Hand the typed-array buffers over without copying
+const buffers = (mesh: MeshData): Transferable[] =>
+  [mesh.vertices.buffer, mesh.normals.buffer, mesh.indices.buffer];
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  const onProgress = (percent: number) => post({ type: 'progress', percent });
+  try {
+    if (request.task === 'decimate') {
+      const result = decimateMesh(request.mesh, request.options, onProgress);
+      post({ type: 'decimated', result }, buffers(result.mesh));
+    } else if (request.task === 'thickness') {
+      const thickness = measureWallThickness(request.mesh, onProgress);
+      post({ type: 'thickness', thickness }, [thickness.buffer]);
+    } else if (request.task === 'integrity') {
+      const report = analyzeMesh(request.mesh);
+      post({ type: 'integrity', report }, [report.problemEdges.buffer]);
+    } else if (request.task === 'slice') {
+      const toolpath = await slicePart(request.params, request.options, onProgress);
+      const { points, loopStart, layerStart, closed } = toolpath;
+      post({ type: 'toolpath', toolpath }, [points.buffer, loopStart.buffer, layerStart.buffer, closed.buffer]);
+    } else if (request.task === 'stream-stl') {
+      const triangles = await streamPartSTL(request.params,
+        (chunk) => post({ type: 'chunk', chunk }, [chunk.buffer as ArrayBuffer]), onProgress);
+      post({ type: 'streamed', triangles });
+    } else if (request.task === 'fluid') {
+      const domains = await generateFluidDomains(request.params, onProgress);
+      post({ type: 'fluid', domains }, [...buffers(domains.a), ...buffers(domains.b)]);
+    } else {
+      const mesh = await generateGyroidMesh(request.params, onProgress);
+      post({ type: 'done', mesh }, buffers(mesh));
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,167 @@
+import { FluidDomains, GenParams, MeshData, ProgressCallback } from '../types';
+import type { DecimateOptions, DecimationResult } from './decimate';
+import type { MeshReport } from './meshIntegrity';
+import type { ChunkCallback } from './stlStream';
+import type { SliceOptions, Toolpath } from './slicer';
+
+export type WorkerRequest =
+  | { task: 'mesh' | 'fluid' | 'stream-stl'; params: GenParams }
+  | { task: 'decimate'; mesh: MeshData; options: DecimateOptions }
+  | { task: 'thickness'; mesh: MeshData }
+  | { task: 'integrity'; mesh: MeshData }
+  | { task: 'slice'; params: GenParams; options: SliceOptions };
+
+export type WorkerResponse =
+  | { type: 'progress'; percent: number }
+  | { type: 'done'; mesh: MeshData }
+  | { type: 'fluid'; domains: FluidDomains }
+  | { type: 'decimated'; result: DecimationResult }
+  | { type: 'chunk'; chunk: Uint8Array }
+  | { type: 'streamed'; triangles: number }
+  | { type: 'thickness'; thickness: Float32Array }
+  | { type: 'integrity'; report: MeshReport }
+  | { type: 'toolpath'; toolpath: Toolpath }
+  | { type: 'error'; message: string };
+
+// Run one request in a fresh worker and resolve with its result message
+function runInWorker(
+  request: WorkerRequest,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+  onChunk?: ChunkCallback,
+): Promise<Exclude<WorkerResponse, { type: 'progress' | 'chunk' | 'error' }>> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('./meshWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress(msg.percent);
+      } else if (msg.type === 'chunk') {
+        onChunk?.(msg.chunk);
+      } else if (msg.type === 'error') {
+        finish();
+        reject(new Error(msg.message));
+      } else {
+        finish();
+        resolve(msg);
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Mesh worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Run `generateGyroidMesh` in a dedicated Web Worker.
+ *
+ * Progress is forwarded through the usual ProgressCallback.  Aborting the
+ * signal terminates the worker immediately and rejects with the signal's
+ * reason (an AbortError DOMException unless one was supplied).
+ */
+export async function generateMeshInWorker(
+  params: GenParams,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<MeshData> {
+  const msg = await runInWorker({ task: 'mesh', params }, onProgress, signal);
+  if (msg.type !== 'done') throw new Error('Unexpected worker response');
+  return msg.mesh;
+}
+
+/** Run `generateFluidDomains` in a dedicated Web Worker (same contract). */
+export async function generateFluidDomainsInWorker(
+  params: GenParams,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<FluidDomains> {
+  const msg = await runInWorker({ task: 'fluid', params }, onProgress, signal);
+  if (msg.type !== 'fluid') throw new Error('Unexpected worker response');
+  return msg.domains;
+}
+
+/**
+ * Run `decimateMesh` in a dedicated Web Worker (same contract).  The mesh
+ * is copied to the worker, so `mesh` stays usable.
+ */
+export async function decimateInWorker(
+  mesh: MeshData,
+  options: DecimateOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<DecimationResult> {
+  const msg = await runInWorker({ task: 'decimate', mesh, options }, onProgress, signal);
+  if (msg.type !== 'decimated') throw new Error('Unexpected worker response');
+  return msg.result;
+}
+
+/**
+ * Run `streamPartSTL` in a dedicated Web Worker (same contract).  Chunks
+ * are passed to `onChunk` in order as the worker produces them; resolves
+ * with the triangle count.
+ */
+export async function streamSTLInWorker(
+  params: GenParams,
+  onChunk: ChunkCallback,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<number> {
+  const msg = await runInWorker({ task: 'stream-stl', params }, onProgress, signal, onChunk);
+  if (msg.type !== 'streamed') throw new Error('Unexpected worker response');
+  return msg.triangles;
+}
+
+/**
+ * Run `measureWallThickness` in a dedicated Web Worker (same contract).
+ * The mesh is copied to the worker, so `mesh` stays usable.
+ */
+export async function measureThicknessInWorker(
+  mesh: MeshData,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Float32Array> {
+  const msg = await runInWorker({ task: 'thickness', mesh }, onProgress, signal);
+  if (msg.type !== 'thickness') throw new Error('Unexpected worker response');
+  return msg.thickness;
+}
+
+/**
+ * Run `analyzeMesh` in a dedicated Web Worker (same contract).  The mesh
+ * is copied to the worker, so `mesh` stays usable.
+ */
+export async function analyzeInWorker(mesh: MeshData, signal?: AbortSignal): Promise<MeshReport> {
+  const msg = await runInWorker({ task: 'integrity', mesh }, () => {}, signal);
+  if (msg.type !== 'integrity') throw new Error('Unexpected worker response');
+  return msg.report;
+}
+
+/** Run `slicePart` in a dedicated Web Worker (same contract). */
+export async function sliceInWorker(
+  params: GenParams,
+  options: SliceOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Toolpath> {
+  const msg = await runInWorker({ task: 'slice', params, options }, onProgress, signal);
+  if (msg.type !== 'toolpath') throw new Error('Unexpected worker response');
+  return msg.toolpath;
+}
@@ -0,0 +1,111 @@
+import { ChannelPair, ExchangerMetrics, GenParams, MeshData } from '../types';
+import { ImplicitModel } from './implicitModel';
+import { resolveBox } from './box';
+import { envelopeVolume, usesFrame } from './envelope';
+import { PORT_FACES, faceAxis, faceLabel, faceSign } from './ports';
+
+/**
+ * Heat-exchanger metrics from the implicit field and the final mesh.
+ *
+ * Channel volumes come from the field samples (counted while the field is
+ * built, see generateGyroidMesh).  Wetted area is the mesh area facing each
+ * channel: every face is probed half a grid step outside the solid and
+ * attributed to channel A or B by the sign of the TPMS value there, or
+ * skipped when the probe lands outside the envelope.  Port areas are
+ * projected: a grid of rays along each axis finds the envelope surface and
+ * tests whether the field just beneath it is open.  On a shell, an open
+ * point only counts for a face inside one of that face's ports — on curved
+ * envelopes a ray aimed at one face can land in another face's opening.
+ */
+
+/** Fluid samples inside the envelope, by channel. */
+export interface ChannelSamples {
+  a: number;
+  b: number;
+}
+
+const perChannel = (f: (c: 'a' | 'b') => number): ChannelPair => ({ a: f('a'), b: f('b') });
+
+export function computeExchangerMetrics(
+  params: GenParams,
+  model: ImplicitModel,
+  mesh: MeshData,
+  samples: ChannelSamples,
+  step: number,
+): ExchangerMetrics {
+  const { envelope } = model;
+  const channelVolume = perChannel(c => samples[c] * step * step * step);
+
+  // ── Wetted area and solid volume from the mesh ────────────────
+  const { vertices: v, indices: idx } = mesh;
+  const wetted = { a: 0, b: 0 };
+  const probe = step / 2;
+  let volume6 = 0;
+  for (let f = 0; f < idx.length; f += 3) {
+    const i0 = idx[f] * 3, i1 = idx[f + 1] * 3, i2 = idx[f + 2] * 3;
+    const ax = v[i1] - v[i0],     ay = v[i1 + 1] - v[i0 + 1], az = v[i1 + 2] - v[i0 + 2];
+    const bx = v[i2] - v[i0],     by = v[i2 + 1] - v[i0 + 1], bz = v[i2 + 2] - v[i0 + 2];
+    const nx = ay * bz - az * by, ny = az * bx - ax * bz,     nz = ax * by - ay * bx;
+    volume6 += v[i0] * nx + v[i0 + 1] * ny + v[i0 + 2] * nz;
+
+    const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (len < 1e-12) continue;
+    // Probe from the centroid along the outward normal, into the fluid
+    const s = probe / len;
+    const px = (v[i0] + v[i1] + v[i2]) / 3 + nx * s;
+    const py = (v[i0 + 1] + v[i1 + 1] + v[i2 + 1]) / 3 + ny * s;
+    const pz = (v[i0 + 2] + v[i1 + 2] + v[i2 + 2]) / 3 + nz * s;
+    if (envelope.dist(px, py, pz, 0) >= 0) continue; // outer skin
+    if (model.tpms(px, py, pz) > 0) wetted.a += len / 2;
+    else wetted.b += len / 2;
+  }
+
+  // ── Projected open port area per face ─────────────────────────
+  const { half } = resolveBox(params);
+  const h = step / 2;                     // ray spacing
+  const depth = Math.min(step, params.shellThickness) / 2;
+  const shell = !usesFrame(params);
+  const portArea = PORT_FACES.map((id) => {
+    const axis = faceAxis(id), sign = faceSign(id);
+    const inA = envelope.facePort(id, 'a'), inB = envelope.facePort(id, 'b');
+    const u = (axis + 1) % 3, w = (axis + 2) % 3;
+    const nu = Math.floor((2 * half[u]) / h), nw = Math.floor((2 * half[w]) / h);
+    const open = { a: 0, b: 0 };
+    const p = [0, 0, 0];
+    const at = (t: number) => { p[axis] = sign * t; return envelope.dist(p[0], p[1], p[2], 0); };
+
+    for (let i = 0; i < nu; i++) {
+      for (let j = 0; j < nw; j++) {
+        p[u] = -half[u] + (i + 0.5) * h;
+        p[w] = -half[w] + (j + 0.5) * h;
+        // Envelopes are convex: bisect between the centre plane and outside
+        let lo = 0, hi = half[axis] + step;
+        if (at(lo) >= 0) continue;        // ray misses the envelope
+        for (let k = 0; k < 24; k++) {
+          const mid = (lo + hi) / 2;
+          if (at(mid) < 0) lo = mid; else hi = mid;
+        }
+        p[axis] = sign * Math.max(0, lo - depth);
+        const G = model.tpms(p[0], p[1], p[2]);
+        if (model.solid(p[0], p[1], p[2], G) <= 0) continue;
+        if (G > 0) {
+          if (!shell || inA(p[0], p[1], p[2]) <= 0) open.a += h * h;
+        } else if (!shell || inB(p[0], p[1], p[2]) <= 0) {
+          open.b += h * h;
+        }
+      }
+    }
+    return { face: faceLabel(id), open };
+  });
+
+  const envVolume = envelopeVolume(params);
+  return {
+    channelVolume,
+    wettedArea: wetted,
+    hydraulicDiameter: perChannel(c => (wetted[c] > 0 ? (4 * channelVolume[c]) / wetted[c] : 0)),
+    solidVolume: volume6 / 6,
+    envelopeVolume: envVolume,
+    porosity: envVolume > 0 ? (channelVolume.a + channelVolume.b) / envVolume : 0,
+    portArea,
+  };
+}
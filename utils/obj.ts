@@ -0,0 +1,33 @@
+import { GenParams, MeshData } from '../types';
+import { createTextChunks } from './textChunks';
+
+/**
+ * Serialize an indexed mesh to Wavefront OBJ with per-vertex normals.
+ * OBJ has no unit field; coordinates are millimetres (noted in the header).
+ * Mesh groups are written as `g` groups.
+ */
+export function serializeOBJ(data: MeshData, params?: GenParams): Uint8Array[] {
+  const { vertices, normals, indices } = data;
+  const out = createTextChunks();
+  out.line('# GyroidGen export — units: mm');
+  if (params) out.line(`# params: ${JSON.stringify(params)}`);
+  out.line('o gyroidgen');
+
+  for (let i = 0; i < vertices.length; i += 3) {
+    out.line(`v ${vertices[i]} ${vertices[i + 1]} ${vertices[i + 2]}`);
+  }
+  for (let i = 0; i < normals.length; i += 3) {
+    out.line(`vn ${normals[i]} ${normals[i + 1]} ${normals[i + 2]}`);
+  }
+  // OBJ indices are 1-based; vertex i uses normal i
+  const groups = data.groups ?? [{ name: '', start: 0, count: indices.length / 3 }];
+  for (const group of groups) {
+    if (group.name) out.line(`g ${group.name}`);
+    for (let f = group.start * 3; f < (group.start + group.count) * 3; f += 3) {
+      const a = indices[f] + 1, b = indices[f + 1] + 1, c = indices[f + 2] + 1;
+      out.line(`f ${a}//${a} ${b}//${b} ${c}//${c}`);
+    }
+  }
+
+  return out.finish();
+}
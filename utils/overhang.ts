@@ -0,0 +1,186 @@
+import { MeshData, PortFace, Vec3 } from '../types';
+import { PORT_FACES, faceAxis, faceSign } from './ports';
+
+/**
+ * Overhang analysis for a build direction.
+ *
+ * A face's overhang angle is measured from vertical: walls are 0°, a flat
+ * ceiling is 90°, and faces turned upward have none.  Faces past the
+ * critical angle need support unless they rest on the build plate (within
+ * a first layer of the lowest point).  Unlike the span heuristic in
+ * ControlPanel this works on the finished mesh and depends on orientation.
+ */
+
+/** Overhang limit (degrees from vertical) most FDM printers handle unsupported. */
+export const DEFAULT_CRITICAL_ANGLE = 45;
+
+/**
+ * Faces within this height of the lowest point (mm) rest on the build plate —
+ * about one first layer, which also absorbs smoothing ripple on flat faces.
+ */
+export const DEFAULT_BED_TOLERANCE = 0.2;
+
+export interface OverhangSettings {
+  direction: PortFace | 'custom';   // build "up", e.g. 'z+'
+  custom: Vec3;                     // used when direction is 'custom'
+  criticalAngle: number;            // degrees from vertical
+}
+
+export const DEFAULT_OVERHANG: OverhangSettings = {
+  direction: 'z+',
+  custom: [0, 0, 1],
+  criticalAngle: DEFAULT_CRITICAL_ANGLE,
+};
+
+export interface OverhangReport {
+  up: Vec3;                   // unit build direction
+  unsupportedArea: number;    // mm² past the critical angle, off the plate
+  unsupportedFaces: number;
+  downwardArea: number;       // mm² facing down at all, off the plate
+  bedArea: number;            // mm² resting on the plate
+  totalArea: number;
+  maxAngle: number;           // degrees, over faces off the plate
+}
+
+/** Unit vector pointing up for `face`, e.g. 'z−' → [0, 0, −1]. */
+export function faceUp(face: PortFace): Vec3 {
+  const up: Vec3 = [0, 0, 0];
+  up[faceAxis(face)] = faceSign(face);
+  return up;
+}
+
+/** Unit build direction of `settings` (+Z when the custom vector is zero). */
+export function resolveUp(settings: OverhangSettings): Vec3 {
+  if (settings.direction !== 'custom') return faceUp(settings.direction);
+  const [x, y, z] = settings.custom;
+  const len = Math.hypot(x, y, z);
+  return len > 1e-9 ? [x / len, y / len, z / len] : [0, 0, 1];
+}
+
+/**
+ * Overhang angle of every face (degrees, 0 when not facing down), with faces
+ * on the build plate set to −1.
+ */
+export function faceOverhangAngles(mesh: MeshData, up: Vec3, bedTolerance = DEFAULT_BED_TOLERANCE): Float32Array {
+  const { vertices: pos, indices: idx } = mesh;
+  const angles = new Float32Array(idx.length / 3);
+
+  let bed = Infinity;
+  for (let i = 0; i < pos.length; i += 3) {
+    const h = pos[i] * up[0] + pos[i + 1] * up[1] + pos[i + 2] * up[2];
+    if (h < bed) bed = h;
+  }
+  const height = (v: number) => pos[v * 3] * up[0] + pos[v * 3 + 1] * up[1] + pos[v * 3 + 2] * up[2];
+
+  for (let f = 0; f < angles.length; f++) {
+    const a = idx[f * 3], b = idx[f * 3 + 1], c = idx[f * 3 + 2];
+    const e1x = pos[b * 3] - pos[a * 3], e1y = pos[b * 3 + 1] - pos[a * 3 + 1], e1z = pos[b * 3 + 2] - pos[a * 3 + 2];
+    const e2x = pos[c * 3] - pos[a * 3], e2y = pos[c * 3 + 1] - pos[a * 3 + 1], e2z = pos[c * 3 + 2] - pos[a * 3 + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const len = Math.hypot(nx, ny, nz);
+    const down = len > 0 ? -(nx * up[0] + ny * up[1] + nz * up[2]) / len : 0;
+    if (down <= 0) continue;
+    if (Math.max(height(a), height(b), height(c)) - bed < bedTolerance) {
+      angles[f] = -1;
+      continue;
+    }
+    angles[f] = (Math.asin(Math.min(1, down)) * 180) / Math.PI;
+  }
+  return angles;
+}
+
+/** Areas and counts of overhanging faces for build direction `up`, from `faceOverhangAngles`. */
+export function analyzeOverhangs(mesh: MeshData, up: Vec3, criticalAngle: number, angles: Float32Array): OverhangReport {
+  const { vertices: pos, indices: idx } = mesh;
+  const report: OverhangReport = {
+    up, unsupportedArea: 0, unsupportedFaces: 0, downwardArea: 0, bedArea: 0, totalArea: 0, maxAngle: 0,
+  };
+
+  for (let f = 0; f < angles.length; f++) {
+    const a = idx[f * 3] * 3, b = idx[f * 3 + 1] * 3, c = idx[f * 3 + 2] * 3;
+    const e1x = pos[b] - pos[a], e1y = pos[b + 1] - pos[a + 1], e1z = pos[b + 2] - pos[a + 2];
+    const e2x = pos[c] - pos[a], e2y = pos[c + 1] - pos[a + 1], e2z = pos[c + 2] - pos[a + 2];
+    const area = 0.5 * Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x);
+    report.totalArea += area;
+
+    const angle = angles[f];
+    if (angle < 0) {
+      report.bedArea += area;
+    } else if (angle > 0) {
+      report.downwardArea += area;
+      if (angle > report.maxAngle) report.maxAngle = angle;
+      if (angle > criticalAngle) {
+        report.unsupportedArea += area;
+        report.unsupportedFaces++;
+      }
+    }
+  }
+  return report;
+}
+
+/** The axis direction with the least unsupported area, and every candidate's report. */
+export function bestAxisOrientation(
+  mesh: MeshData, criticalAngle: number, bedTolerance = DEFAULT_BED_TOLERANCE,
+): { best: PortFace; reports: Record<PortFace, OverhangReport> } {
+  const reports = {} as Record<PortFace, OverhangReport>;
+  let best: PortFace = PORT_FACES[0];
+  for (const face of PORT_FACES) {
+    const up = faceUp(face);
+    reports[face] = analyzeOverhangs(mesh, up, criticalAngle, faceOverhangAngles(mesh, up, bedTolerance));
+    if (reports[face].unsupportedArea < reports[best].unsupportedArea) best = face;
+  }
+  return { best, reports };
+}
+
+// Heatmap: the part colour up to half the critical angle, then yellow at the
+// limit, red beyond; plate faces blue
+const BASE: Vec3 = [0.29, 0.87, 0.5];
+const LIMIT: Vec3 = [0.98, 0.8, 0.08];
+const UNSUPPORTED: Vec3 = [0.94, 0.27, 0.27];
+const BED: Vec3 = [0.23, 0.51, 0.96];
+
+/** CSS gradient matching `overhangColors` over 0–90°, for legends. */
+export const overhangGradient = (criticalAngle: number): string => {
+  const at = (angle: number) => `${((angle / 90) * 100).toFixed(1)}%`;
+  return `linear-gradient(to right, rgb(74,222,128) 0%, rgb(74,222,128) ${at(criticalAngle / 2)}, ` +
+    `rgb(250,204,20) ${at(criticalAngle)}, rgb(240,68,68) ${at(criticalAngle)}, rgb(240,68,68) 100%)`;
+};
+
+/**
+ * Per-vertex RGB (0–1) from per-face overhang `angles`: each vertex takes
+ * the area-weighted mean colour of its faces.
+ */
+export function overhangColors(mesh: MeshData, angles: Float32Array, criticalAngle: number): Float32Array {
+  const { vertices: pos, indices: idx } = mesh;
+  const colors = new Float32Array(pos.length);
+  const weight = new Float32Array(pos.length / 3);
+
+  for (let f = 0; f < angles.length; f++) {
+    const angle = angles[f];
+    let rgb: Vec3;
+    if (angle < 0) rgb = BED;
+    else if (angle > criticalAngle) rgb = UNSUPPORTED;
+    else {
+      const t = Math.max(0, (angle / criticalAngle - 0.5) * 2);
+      rgb = [0, 1, 2].map(k => BASE[k] + (LIMIT[k] - BASE[k]) * t) as Vec3;
+    }
+
+    const a = idx[f * 3], b = idx[f * 3 + 1], c = idx[f * 3 + 2];
+    const e1x = pos[b * 3] - pos[a * 3], e1y = pos[b * 3 + 1] - pos[a * 3 + 1], e1z = pos[b * 3 + 2] - pos[a * 3 + 2];
+    const e2x = pos[c * 3] - pos[a * 3], e2y = pos[c * 3 + 1] - pos[a * 3 + 1], e2z = pos[c * 3 + 2] - pos[a * 3 + 2];
+    const area = Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x) || 1e-12;
+    for (const v of [a, b, c]) {
+      colors[v * 3]     += rgb[0] * area;
+      colors[v * 3 + 1] += rgb[1] * area;
+      colors[v * 3 + 2] += rgb[2] * area;
+      weight[v] += area;
+    }
+  }
+  for (let v = 0; v < weight.length; v++) {
+    if (weight[v] === 0) continue;
+    colors[v * 3] /= weight[v];
+    colors[v * 3 + 1] /= weight[v];
+    colors[v * 3 + 2] /= weight[v];
+  }
+  return colors;
+}
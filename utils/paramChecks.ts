@@ -0,0 +1,145 @@
+import {
+  Axis, Channel, EnvelopeType, FittingType, GenParams, GradientMode, PortLayout, PortSpec, SurfaceType, Vec3,
+} from '../types';
+import { DEFAULT_PARAMS } from './defaults';
+import { TPMS_FUNCTIONS } from './tpms';
+import { FITTINGS } from './headers';
+import { PORT_FACES } from './ports';
+import { MAX_BUILD_SIZE } from './printerProfiles';
+
+/**
+ * Checks for parameters that come from outside the app — shared links,
+ * preset files and stored presets.  None of them is trusted: unknown fields are dropped,
+ * numbers are clamped to the ranges the controls allow, bad values fall
+ * back to the default, and every such fix is reported as an issue.
+ */
+
+// Numeric ranges — the ControlPanel slider limits (sizes up to the largest
+// build volume a printer profile accepts).  `int` fields are rounded.
+const NUMBER_LIMITS: Partial<Record<keyof GenParams, { min: number; max: number; int?: boolean }>> = {
+  size:                { min: 20,  max: MAX_BUILD_SIZE },
+  wallThickness:       { min: 0.1, max: 0.8 },
+  wallThicknessEnd:    { min: 0.1, max: 0.8 },
+  shellThickness:      { min: 0.5, max: 12 },
+  frameBeamWidth:      { min: 2,   max: 30 },
+  filletRadius:        { min: 0,   max: 5 },
+  headerDepth:         { min: 4,   max: 40 },
+  fittingDiameter:     { min: 6,   max: 60 },
+  fittingLength:       { min: 5,   max: 60 },
+  boltCount:           { min: 3,   max: 12,  int: true },
+  resolution:          { min: 30,  max: 400, int: true },
+  smoothingIterations: { min: 0,   max: 30,  int: true },
+};
+
+// Cell sizes are limited relative to their edge (1–16 cells)
+const MAX_CELLS = 16;
+
+const CHOICES: Partial<Record<keyof GenParams, readonly string[]>> = {
+  surfaceType:  Object.keys(TPMS_FUNCTIONS) as SurfaceType[],
+  gradientMode: ['none', 'linear', 'radial', 'ports'] satisfies GradientMode[],
+  gradientAxis: ['x', 'y', 'z'] satisfies Axis[],
+  envelope:     ['box', 'cylinder', 'sphere', 'hexPrism'] satisfies EnvelopeType[],
+  fitting:      FITTINGS.map(f => f.id) satisfies FittingType[],
+};
+
+const FLAGS: (keyof GenParams)[] = ['useFrame', 'makeManifold', 'headers'];
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export interface CheckedParams {
+  params: GenParams;
+  issues: string[];   // what was clamped, replaced or dropped
+}
+
+function sanitizePorts(raw: unknown): PortLayout | null {
+  if (!isObject(raw)) return null;
+  const layout = {} as PortLayout;
+  for (const channel of ['a', 'b'] as Channel[]) {
+    const ports = raw[channel];
+    if (!isObject(ports)) return null;
+    layout[channel] = {} as PortLayout[Channel];
+    for (const role of ['inlet', 'outlet'] as const) {
+      const spec = ports[role];
+      if (!isObject(spec) || !PORT_FACES.includes(spec.face as PortSpec['face'])) return null;
+      const out: PortSpec = { face: spec.face as PortSpec['face'] };
+      if (spec.window !== undefined) {
+        const w = spec.window;
+        if (!Array.isArray(w) || w.length !== 4 || !w.every(isNumber)) return null;
+        out.window = w.map(t => Math.min(1, Math.max(-1, t))) as PortSpec['window'];
+      }
+      layout[channel][role] = out;
+    }
+  }
+  return layout;
+}
+
+/**
+ * Validate untrusted parameters: clamp, replace or drop whatever the
+ * controls could not have produced, starting from `base`.
+ */
+export function sanitizeParams(raw: Record<string, unknown>, base: Readonly<GenParams> = DEFAULT_PARAMS): CheckedParams {
+  const params: GenParams = { ...base };
+  const out = params as unknown as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const clamp = (key: string, v: unknown, min: number, max: number, int = false): number | undefined => {
+    if (!isNumber(v)) {
+      issues.push(`${key}: not a number, using the default`);
+      return undefined;
+    }
+    const c = Math.min(max, Math.max(min, int ? Math.round(v) : v));
+    if (c !== v) issues.push(`${key}: ${v} is outside ${min}–${max}, using ${c}`);
+    return c;
+  };
+
+  // Edges first: the cell-size limits depend on them
+  const ordered = Object.keys(raw).sort((a, b) =>
+    Number(b === 'size' || b === 'dimensions') - Number(a === 'size' || a === 'dimensions'));
+
+  for (const key of ordered) {
+    const value = raw[key];
+    const limits = NUMBER_LIMITS[key as keyof GenParams];
+    const choices = CHOICES[key as keyof GenParams];
+
+    if (limits) {
+      const v = clamp(key, value, limits.min, limits.max, limits.int);
+      if (v !== undefined) out[key] = v;
+    } else if (choices) {
+      if (typeof value === 'string' && choices.includes(value)) out[key] = value;
+      else issues.push(`${key}: unknown value ${JSON.stringify(value)}, using the default`);
+    } else if (FLAGS.includes(key as keyof GenParams)) {
+      if (typeof value === 'boolean') out[key] = value;
+      else issues.push(`${key}: not true/false, using the default`);
+    } else if (key === 'cellSize') {
+      const v = clamp(key, value, params.size / MAX_CELLS, params.size);
+      if (v !== undefined) params.cellSize = v;
+    } else if (key === 'dimensions' || key === 'cellSizes') {
+      if (!Array.isArray(value) || value.length !== 3) {
+        issues.push(`${key}: expected three values, ignored`);
+        continue;
+      }
+      const vec = value.map((v, a) => key === 'dimensions'
+        ? clamp(`${key}[${a}]`, v, NUMBER_LIMITS.size!.min, NUMBER_LIMITS.size!.max)
+        : clamp(`${key}[${a}]`, v, (params.dimensions?.[a] ?? params.size) / MAX_CELLS,
+          params.dimensions?.[a] ?? params.size));
+      if (vec.every(isNumber)) out[key] = vec as Vec3;
+    } else if (key === 'ports') {
+      const ports = sanitizePorts(value);
+      if (ports) params.ports = ports;
+      else issues.push('ports: malformed layout, using the default crossflow ports');
+    } else {
+      issues.push(`${key}: unknown parameter, ignored`);
+    }
+  }
+
+  // A box needs both halves
+  if (!!params.dimensions !== !!params.cellSizes) {
+    issues.push('dimensions and cellSizes must be given together, using a cube');
+    params.dimensions = params.cellSizes = undefined;
+  }
+
+  return { params, issues };
+}
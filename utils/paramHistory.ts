@@ -0,0 +1,69 @@
+/**
+ * Undo/redo history for a value (the app's GenParams), as a reducer.
+ *
+ * Edits that arrive in a quick run with the same `group` — one slider drag
+ * fires dozens — coalesce into a single undo step.  Edits without a group
+ * always start a new step.
+ */
+
+/** Longest undo chain kept. */
+export const MAX_HISTORY = 100;
+
+/** Same-group edits closer together than this (ms) merge into one step. */
+const COALESCE_MS = 800;
+
+export interface History<T> {
+  past: T[];       // oldest first
+  present: T;
+  future: T[];     // next redo first
+  group: string | null;
+  time: number;    // of the last edit
+}
+
+export type HistoryAction<T> =
+  | { type: 'edit'; update: (present: T) => T; group?: string; time: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export const initialHistory = <T>(present: T): History<T> =>
+  ({ past: [], present, future: [], group: null, time: 0 });
+
+export function historyReducer<T>(state: History<T>, action: HistoryAction<T>): History<T> {
+  switch (action.type) {
+    case 'edit': {
+      const next = action.update(state.present);
+      if (next === state.present) return state;
+      const group = action.group ?? null;
+      if (group !== null && group === state.group && action.time - state.time < COALESCE_MS) {
+        return { ...state, present: next, future: [], time: action.time };
+      }
+      return {
+        past: [...state.past, state.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        group,
+        time: action.time,
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        group: null,
+        time: 0,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        group: null,
+        time: 0,
+      };
+    }
+  }
+}
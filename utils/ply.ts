@@ -0,0 +1,53 @@
+import { MeshData } from '../types';
+
+/**
+ * Serialize an indexed mesh to binary (little-endian) PLY with per-vertex
+ * normals.
+ */
+export function serializePLY(data: MeshData): Uint8Array {
+  const { vertices, normals, indices } = data;
+  const numVerts = vertices.length / 3;
+  const numFaces = indices.length / 3;
+
+  const header = new TextEncoder().encode([
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment GyroidGen export - units: mm',
+    `element vertex ${numVerts}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float nx',
+    'property float ny',
+    'property float nz',
+    `element face ${numFaces}`,
+    'property list uchar uint vertex_indices',
+    'end_header',
+    '',
+  ].join('\n'));
+
+  // 24 bytes per vertex, 13 bytes per triangle (count + 3 × uint32)
+  const out = new Uint8Array(header.length + numVerts * 24 + numFaces * 13);
+  out.set(header, 0);
+  const view = new DataView(out.buffer);
+
+  let offset = header.length;
+  for (let v = 0; v < numVerts; v++) {
+    view.setFloat32(offset,      vertices[v * 3],     true);
+    view.setFloat32(offset + 4,  vertices[v * 3 + 1], true);
+    view.setFloat32(offset + 8,  vertices[v * 3 + 2], true);
+    view.setFloat32(offset + 12, normals[v * 3],      true);
+    view.setFloat32(offset + 16, normals[v * 3 + 1],  true);
+    view.setFloat32(offset + 20, normals[v * 3 + 2],  true);
+    offset += 24;
+  }
+  for (let f = 0; f < numFaces; f++) {
+    view.setUint8(offset, 3);
+    view.setUint32(offset + 1, indices[f * 3],     true);
+    view.setUint32(offset + 5, indices[f * 3 + 1], true);
+    view.setUint32(offset + 9, indices[f * 3 + 2], true);
+    offset += 13;
+  }
+
+  return out;
+}
@@ -0,0 +1,119 @@
+import { Channel, GenParams, PortFace, PortLayout, PortSpec } from '../types';
+
+/**
+ * Port layout — which faces (and which part of each face) open into
+ * channel A and channel B in shell mode.
+ *
+ * Faces are named by outward normal.  Each face has lateral axes u and v,
+ * the next two axes after its normal (x → y, z; y → z, x; z → x, y), and
+ * port windows are given in −1…1 coordinates along them.
+ */
+
+export type AxisIndex = 0 | 1 | 2;
+
+export interface ResolvedPort {
+  channel: Channel;
+  role: 'inlet' | 'outlet';
+  face: PortFace;
+  axis: AxisIndex;       // face normal axis
+  sign: 1 | -1;          // normal direction
+  u: AxisIndex;          // lateral axes
+  v: AxisIndex;
+  window: [number, number, number, number];  // [u0, u1, v0, v1], −1…1
+}
+
+export const FULL_WINDOW: [number, number, number, number] = [-1, 1, -1, 1];
+
+export const PORT_FACES: PortFace[] = ['x+', 'x-', 'y+', 'y-', 'z+', 'z-'];
+
+/** Crossflow: channel A through the Z faces, channel B through the X faces. */
+export const DEFAULT_PORTS: PortLayout = {
+  a: { inlet: { face: 'z-' }, outlet: { face: 'z+' } },
+  b: { inlet: { face: 'x-' }, outlet: { face: 'x+' } },
+};
+
+/** Window presets for the port editor. */
+export const PORT_WINDOWS: { id: string; label: string; window: [number, number, number, number] }[] = [
+  { id: 'full',   label: 'Full face', window: [-1, 1, -1, 1] },
+  { id: 'uLow',   label: 'Half (u−)', window: [-1, 0, -1, 1] },
+  { id: 'uHigh',  label: 'Half (u+)', window: [0, 1, -1, 1] },
+  { id: 'vLow',   label: 'Half (v−)', window: [-1, 1, -1, 0] },
+  { id: 'vHigh',  label: 'Half (v+)', window: [-1, 1, 0, 1] },
+  { id: 'centre', label: 'Centre',    window: [-0.5, 0.5, -0.5, 0.5] },
+];
+
+/** Flow arrangement presets. */
+export const FLOW_ARRANGEMENTS: { id: string; label: string; ports: PortLayout }[] = [
+  { id: 'crossflow', label: 'Crossflow', ports: DEFAULT_PORTS },
+  {
+    // Both channels run along Z in opposite directions, each through its
+    // own half of the end faces
+    id: 'counterflow', label: 'Counterflow',
+    ports: {
+      a: { inlet: { face: 'z-', window: [-1, 0, -1, 1] }, outlet: { face: 'z+', window: [-1, 0, -1, 1] } },
+      b: { inlet: { face: 'z+', window: [0, 1, -1, 1] },  outlet: { face: 'z-', window: [0, 1, -1, 1] } },
+    },
+  },
+  {
+    id: 'parallel', label: 'Parallel',
+    ports: {
+      a: { inlet: { face: 'z-', window: [-1, 0, -1, 1] }, outlet: { face: 'z+', window: [-1, 0, -1, 1] } },
+      b: { inlet: { face: 'z-', window: [0, 1, -1, 1] },  outlet: { face: 'z+', window: [0, 1, -1, 1] } },
+    },
+  },
+];
+
+export const faceAxis = (face: PortFace): AxisIndex =>
+  face[0] === 'x' ? 0 : face[0] === 'y' ? 1 : 2;
+
+export const faceSign = (face: PortFace): 1 | -1 => (face[1] === '+' ? 1 : -1);
+
+/** Display name, e.g. 'Z+' / 'X−'. */
+export const faceLabel = (face: PortFace): string =>
+  face[0].toUpperCase() + (face[1] === '+' ? '+' : '−');
+
+const clampWindow = (w: PortSpec['window']): [number, number, number, number] => {
+  if (!w) return FULL_WINDOW;
+  const c = (t: number) => Math.min(1, Math.max(-1, t));
+  const [u0, u1, v0, v1] = w.map(c);
+  return [Math.min(u0, u1), Math.max(u0, u1), Math.min(v0, v1), Math.max(v0, v1)];
+};
+
+/**
+ * The four ports of the layout.  Only meaningful for the shell: in frame
+ * mode every face is open regardless.
+ */
+export function resolvePorts(params: GenParams): ResolvedPort[] {
+  const layout = params.ports ?? DEFAULT_PORTS;
+  const out: ResolvedPort[] = [];
+  for (const channel of ['a', 'b'] as Channel[]) {
+    for (const role of ['inlet', 'outlet'] as const) {
+      const spec = layout[channel]?.[role] ?? DEFAULT_PORTS[channel][role];
+      const axis = faceAxis(spec.face);
+      out.push({
+        channel, role,
+        face: spec.face,
+        axis,
+        sign: faceSign(spec.face),
+        u: ((axis + 1) % 3) as AxisIndex,
+        v: ((axis + 2) % 3) as AxisIndex,
+        window: clampWindow(spec.window),
+      });
+    }
+  }
+  return out;
+}
+
+/** Faces carrying at least one port. */
+export function portFaces(params: GenParams): Set<PortFace> {
+  return new Set(resolvePorts(params).map(p => p.face));
+}
+
+/** True when ports of different channels overlap on the same face. */
+export function portsOverlap(params: GenParams): boolean {
+  const ports = resolvePorts(params);
+  return ports.some(p => ports.some(q =>
+    p.channel !== q.channel && p.face === q.face &&
+    p.window[0] < q.window[1] && q.window[0] < p.window[1] &&
+    p.window[2] < q.window[3] && q.window[2] < p.window[3]));
+}
@@ -0,0 +1,123 @@
+import { GenParams } from '../types';
+import { DEFAULT_PARAMS } from './defaults';
+import { sanitizeParams } from './paramChecks';
+
+/**
+ * Named parameter presets — built-in starters plus the user's own, kept in
+ * localStorage and exchanged as JSON files.
+ *
+ * Saved parameters are always merged onto DEFAULT_PARAMS when read, so
+ * presets written before a field existed (e.g. `makeManifold`) load with
+ * that field's default.  A preset file is either a collection
+ * ({ presets: [{ name, params }] }) or a bare GenParams object — the same
+ * format as the CLI's --params file.
+ */
+
+export interface Preset {
+  name: string;
+  params: GenParams;
+}
+
+const STORAGE_KEY = 'gyroidgen.presets';
+
+/** Starter presets shipped with the app. */
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    // Paste extruders need wide beads and spans they can bridge wet
+    name: 'Clay (paste extrusion)',
+    params: {
+      ...DEFAULT_PARAMS,
+      size: 150, cellSize: 37.5, wallThickness: 0.7,
+      shellThickness: 6, filletRadius: 3,
+      resolution: 60, smoothingIterations: 4,
+    },
+  },
+  {
+    name: 'FDM (0.4 mm nozzle)',
+    params: { ...DEFAULT_PARAMS },
+  },
+  {
+    // Small part: fine cells and a thin shell at high resolution
+    name: 'Resin (MSLA)',
+    params: {
+      ...DEFAULT_PARAMS,
+      size: 40, cellSize: 10, wallThickness: 0.45,
+      shellThickness: 1.2, filletRadius: 0.4,
+      resolution: 120, smoothingIterations: 4,
+    },
+  },
+];
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Saved parameters → GenParams, filling fields the save predates from the
+ * defaults.  Files and storage are untrusted, so values go through
+ * sanitizeParams: out-of-range numbers are clamped, unknown values and
+ * fields dropped.  Throws when the value is not a parameter object.
+ */
+export function parsePresetParams(raw: unknown): GenParams {
+  if (!isObject(raw)) throw new Error('Preset parameters must be a JSON object');
+  const { params, issues } = sanitizeParams(raw);
+  if (issues.length > 0) console.warn('Preset adjusted:', issues);
+  return params;
+}
+
+// Collection entries that parse; the rest are skipped
+function parseEntries(entries: unknown[]): Preset[] {
+  const out: Preset[] = [];
+  for (const entry of entries) {
+    if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name.trim()) continue;
+    try {
+      out.push({ name: entry.name.trim(), params: parsePresetParams(entry.params) });
+    } catch {
+      // unreadable entry — drop it rather than the whole collection
+    }
+  }
+  return out;
+}
+
+/** The user's saved presets (empty when storage is unavailable or corrupt). */
+export function loadPresets(): Preset[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(raw) ? parseEntries(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+/** Add or replace the preset of the same name, keeping the list sorted. */
+export function upsertPreset(presets: Preset[], preset: Preset): Preset[] {
+  return [...presets.filter(p => p.name !== preset.name), preset]
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Preset file contents for `presets`. */
+export function serializePresets(presets: Preset[]): string {
+  return JSON.stringify({ presets }, null, 2) + '\n';
+}
+
+/**
+ * Read a preset file.  A bare parameter object becomes one preset named
+ * `fallbackName` (the file name).  Throws when nothing in it is usable.
+ */
+export function parsePresetFile(text: string, fallbackName: string): Preset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (isObject(raw) && Array.isArray(raw.presets)) {
+    const presets = parseEntries(raw.presets);
+    if (presets.length === 0) throw new Error('No readable presets in file');
+    return presets;
+  }
+  return [{ name: fallbackName, params: parsePresetParams(raw) }];
+}
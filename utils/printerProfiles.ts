@@ -0,0 +1,192 @@
+import { GenParams, Vec3 } from '../types';
+import { resolveBox } from './box';
+import { headerReach } from './headers';
+
+/**
+ * Printer profiles — the machine and material limits the printability
+ * indicators are judged against, replacing the fixed clay thresholds.
+ *
+ * Built-in profiles cover paste-extruded clay, 0.4 mm FDM and MSLA resin;
+ * edited copies are saved in localStorage by name, like presets.  Stored
+ * profiles are merged onto the FDM profile when read, so fields added later
+ * load with a sensible value.
+ */
+
+export interface MaterialDefaults {
+  name: string;
+  density: number;          // g/cm³ of the finished part
+  shrinkage: number;        // % linear, drying/firing or curing
+}
+
+export interface PrinterProfile {
+  name: string;
+  lineWidth: number;        // mm — extruded bead or nozzle width (pixel size for resin)
+  layerHeight: number;      // mm
+  minWall: number;          // mm — thinnest wall that prints reliably
+  maxSpan: number;          // mm — longest gap bridged without support
+  criticalAngle: number;    // degrees from vertical — steepest unsupported overhang
+  buildVolume: Vec3;        // mm, X × Y × Z
+  material: MaterialDefaults;
+}
+
+/** Largest build volume edge accepted (mm); also caps the part size sliders. */
+export const MAX_BUILD_SIZE = 1000;
+
+const STORAGE_KEY = 'gyroidgen.printerProfiles';
+const ACTIVE_KEY = 'gyroidgen.printerProfile';
+
+export const BUILT_IN_PROFILES: PrinterProfile[] = [
+  {
+    // Thresholds the app shipped with: wide wet beads, short bridges
+    name: 'Clay (paste extrusion)',
+    lineWidth: 3, layerHeight: 1.5,
+    minWall: 3, maxSpan: 20, criticalAngle: 30,
+    buildVolume: [400, 400, 400],
+    material: { name: 'Stoneware', density: 2.2, shrinkage: 12 },
+  },
+  {
+    name: 'FDM (0.4 mm nozzle)',
+    lineWidth: 0.45, layerHeight: 0.2,
+    minWall: 0.9, maxSpan: 30, criticalAngle: 45,
+    buildVolume: [220, 220, 250],
+    material: { name: 'PLA', density: 1.24, shrinkage: 0.3 },
+  },
+  {
+    name: 'Resin (MSLA)',
+    lineWidth: 0.05, layerHeight: 0.05,
+    minWall: 0.5, maxSpan: 8, criticalAngle: 35,
+    buildVolume: [218, 123, 250],
+    material: { name: 'Standard resin', density: 1.15, shrinkage: 1 },
+  },
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[1];
+
+// Positive numeric fields and their accepted ranges
+const LIMITS: Record<'lineWidth' | 'layerHeight' | 'minWall' | 'maxSpan' | 'criticalAngle', [number, number]> = {
+  lineWidth:     [0.01, 20],
+  layerHeight:   [0.01, 10],
+  minWall:       [0.05, 50],
+  maxSpan:       [0.5, 500],
+  criticalAngle: [5, 85],
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/**
+ * A stored or imported profile → PrinterProfile, filling missing fields from
+ * the FDM profile.  Throws when a field is present but unusable.
+ */
+export function parsePrinterProfile(raw: unknown): PrinterProfile {
+  if (!isObject(raw)) throw new Error('Printer profile must be a JSON object');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('Printer profile needs a name');
+  const profile: PrinterProfile = {
+    ...DEFAULT_PROFILE,
+    name: raw.name.trim(),
+    material: { ...DEFAULT_PROFILE.material },
+  };
+
+  for (const [key, [min, max]] of Object.entries(LIMITS) as [keyof typeof LIMITS, [number, number]][]) {
+    if (!(key in raw)) continue;
+    const v = raw[key];
+    if (!finite(v) || v < min || v > max) throw new Error(`Profile field "${key}" must be a number from ${min} to ${max}`);
+    profile[key] = v;
+  }
+  if ('buildVolume' in raw) {
+    const v = raw.buildVolume;
+    if (!Array.isArray(v) || v.length !== 3 || !v.every(c => finite(c) && c > 0 && c <= MAX_BUILD_SIZE)) {
+      throw new Error(`Profile field "buildVolume" must be three sizes up to ${MAX_BUILD_SIZE} mm`);
+    }
+    profile.buildVolume = [v[0], v[1], v[2]];
+  }
+  if (isObject(raw.material)) {
+    const m = raw.material;
+    if (typeof m.name === 'string') profile.material.name = m.name;
+    if (finite(m.density) && m.density > 0) profile.material.density = m.density;
+    if (finite(m.shrinkage) && m.shrinkage >= 0 && m.shrinkage < 50) profile.material.shrinkage = m.shrinkage;
+  }
+  return profile;
+}
+
+/** The user's saved profiles (empty when storage is unavailable or corrupt). */
+export function loadProfiles(): PrinterProfile[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    const out: PrinterProfile[] = [];
+    for (const entry of raw) {
+      try {
+        out.push(parsePrinterProfile(entry));
+      } catch {
+        // unreadable entry — drop it rather than the whole list
+      }
+    }
+    return out;
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: PrinterProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/** Add or replace the profile of the same name, keeping the list sorted. */
+export function upsertProfile(profiles: PrinterProfile[], profile: PrinterProfile): PrinterProfile[] {
+  return [...profiles.filter(p => p.name !== profile.name), profile]
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** The profile in use last time (FDM when none was stored). */
+export function loadActiveProfile(): PrinterProfile {
+  try {
+    const raw = localStorage.getItem(ACTIVE_KEY);
+    return raw ? parsePrinterProfile(JSON.parse(raw)) : DEFAULT_PROFILE;
+  } catch {
+    return DEFAULT_PROFILE;
+  }
+}
+
+export function saveActiveProfile(profile: PrinterProfile) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, JSON.stringify(profile));
+  } catch {
+    // storage full or disabled — the choice just isn't remembered
+  }
+}
+
+// ─── Judging a part ──────────────────────────────────────────────────────────
+
+export type Status = 'good' | 'warn' | 'bad';
+
+/** Walls from the minimum up are good; down to half of it marginal. */
+export const wallStatus = (mm: number, profile: PrinterProfile): Status =>
+  mm >= profile.minWall ? 'good' : mm >= profile.minWall / 2 ? 'warn' : 'bad';
+
+/** Spans up to the maximum are good; up to 1.75× marginal. */
+export const spanStatus = (mm: number, profile: PrinterProfile): Status =>
+  mm <= profile.maxSpan ? 'good' : mm <= profile.maxSpan * 1.75 ? 'warn' : 'bad';
+
+/** Overall part size including headers and fittings (mm). */
+export function partExtent(params: GenParams): Vec3 {
+  const box = resolveBox(params);
+  return [
+    box.dims[0] + 2 * headerReach(params, 'x'),
+    box.dims[1] + 2 * headerReach(params, 'y'),
+    box.dims[2] + 2 * headerReach(params, 'z'),
+  ];
+}
+
+/**
+ * How `extent` fits the build volume: as modelled (Z up), only after
+ * turning it onto another face, or not at all.
+ */
+export function buildVolumeFit(extent: Vec3, volume: Vec3): 'fits' | 'rotated' | 'no' {
+  if (extent.every((e, a) => e <= volume[a])) return 'fits';
+  const sorted = (v: Vec3) => [...v].sort((a, b) => a - b);
+  const e = sorted(extent), v = sorted(volume);
+  return e.every((x, i) => x <= v[i]) ? 'rotated' : 'no';
+}
@@ -0,0 +1,39 @@
+/**
+ * Viewport screenshots with a caption strip underneath, so an image passed
+ * around for review still says which design and which section it shows.
+ */
+
+const LINE_HEIGHT = 18;
+const PADDING = 10;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode the viewport image'));
+    image.src = src;
+  });
+
+/** PNG of the `viewport` image (a data URL) above `lines` of caption text. */
+export async function annotateScreenshot(viewport: string, lines: string[]): Promise<Blob> {
+  const image = await loadImage(viewport);
+  const footer = lines.length * LINE_HEIGHT + 2 * PADDING;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height + footer;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas unavailable');
+
+  ctx.fillStyle = '#0a0a0a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+
+  ctx.fillStyle = '#d4d4d4';
+  ctx.font = '13px ui-monospace, monospace';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => ctx.fillText(line, PADDING, image.height + PADDING + i * LINE_HEIGHT));
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png'));
+}
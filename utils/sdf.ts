@@ -0,0 +1,34 @@
+/**
+ * Implicit-CSG helpers for the signed scalar field.
+ *
+ * Convention used throughout the generator: values are (approximate)
+ * signed distances in millimetres, NEGATIVE inside solid material and
+ * POSITIVE in void.  Union = min, intersection = max, subtraction =
+ * max(a, −b).
+ */
+
+/** Polynomial smooth minimum — blends a and b over a fillet of radius k (mm). */
+export function smoothMin(a: number, b: number, k: number): number {
+  if (k <= 0) return a < b ? a : b;
+  const h = Math.max(k - Math.abs(a - b), 0) / k;
+  return Math.min(a, b) - h * h * k * 0.25;
+}
+
+/** Union of two solids; smooth when k > 0. */
+export const union = (a: number, b: number, k = 0): number => smoothMin(a, b, k);
+
+/** Intersection of two solids. */
+export const intersect = (a: number, b: number): number => (a > b ? a : b);
+
+/** Subtract solid b from solid a. */
+export const subtract = (a: number, b: number): number => (a > -b ? a : -b);
+
+/**
+ * Chebyshev ("max-norm") distance to an axis-aligned box centred on the
+ * origin.  Exact on the faces, which is all the field needs for clean
+ * planar walls.
+ */
+export const boxDist = (
+  x: number, y: number, z: number,
+  hx: number, hy: number, hz: number,
+): number => Math.max(Math.abs(x) - hx, Math.abs(y) - hy, Math.abs(z) - hz);
@@ -0,0 +1,46 @@
+import { Axis, GenParams } from '../types';
+import { resolveBox } from './box';
+import { headerReach } from './headers';
+
+/**
+ * Viewport section planes — one per axis.  An enabled plane cuts away the
+ * part beyond `offset` (mm from the centre): the + side normally, the − side
+ * when flipped.  The viewport caps the cut faces (see GeometryPreview).
+ */
+
+export interface SectionPlane {
+  enabled: boolean;
+  offset: number;
+  flip: boolean;     // keep the + side instead of the − side
+}
+
+export type SectionPlanes = Record<Axis, SectionPlane>;
+
+export const SECTION_AXES: Axis[] = ['x', 'y', 'z'];
+
+export const DEFAULT_SECTIONS: SectionPlanes = {
+  x: { enabled: false, offset: 0, flip: false },
+  y: { enabled: false, offset: 0, flip: false },
+  z: { enabled: false, offset: 0, flip: false },
+};
+
+/** How far a plane can travel on `axis` (mm): the part with its headers. */
+export const sectionRange = (params: GenParams, axis: Axis): number =>
+  resolveBox(params).half[SECTION_AXES.indexOf(axis)] + headerReach(params, axis);
+
+export const anySection = (sections: SectionPlanes): boolean =>
+  SECTION_AXES.some(a => sections[a].enabled);
+
+/** Kept region of one plane, e.g. 'X ≤ 12.0 mm'. */
+export const describeSection = (axis: Axis, plane: SectionPlane): string =>
+  `${axis.toUpperCase()} ${plane.flip ? '≥' : '≤'} ${plane.offset.toFixed(1)} mm`;
+
+/** All enabled planes, e.g. 'X ≤ 12.0 mm, Z ≥ −5.0 mm' ('' when none). */
+export const describeSections = (sections: SectionPlanes): string =>
+  SECTION_AXES.filter(a => sections[a].enabled).map(a => describeSection(a, sections[a])).join(', ');
+
+/** Filename tag for the enabled planes, e.g. 'x12-zm5' ('' when none). */
+export const sectionTag = (sections: SectionPlanes): string =>
+  SECTION_AXES.filter(a => sections[a].enabled)
+    .map(a => `${a}${sections[a].flip ? 'p' : ''}${Math.round(sections[a].offset)}`.replace('-', 'm'))
+    .join('-');
@@ -0,0 +1,117 @@
+import { GenParams, PortLayout } from '../types';
+import { DEFAULT_PARAMS } from './defaults';
+import { CheckedParams, sanitizeParams } from './paramChecks';
+
+/**
+ * Shareable links — the parameter state in the URL hash.
+ *
+ * The hash is `#v1=<base64url JSON>`, holding only the fields that differ
+ * from V1_DEFAULTS under short keys, with numbers rounded to 1e-4 (cell
+ * sizes are often thirds).  Links come from anywhere, so decoding puts them
+ * through sanitizeParams like any other untrusted parameters.
+ */
+
+const VERSION = 1;
+const HASH_PATTERN = /^#?v(\d+)=(.*)$/;
+
+// Link keys.  Part of the v1 format: never reuse or change one.
+const SHORT_KEYS: Record<keyof GenParams, string> = {
+  size: 's', cellSize: 'c', dimensions: 'd', cellSizes: 'cs', surfaceType: 't',
+  wallThickness: 'w', gradientMode: 'gm', gradientAxis: 'ga', wallThicknessEnd: 'we',
+  envelope: 'e', useFrame: 'f', shellThickness: 'sh', frameBeamWidth: 'fb', filletRadius: 'fr',
+  ports: 'p', headers: 'h', headerDepth: 'hd', fitting: 'ft', fittingDiameter: 'fd',
+  fittingLength: 'fl', boltCount: 'bc', resolution: 'r', smoothingIterations: 'sm', makeManifold: 'm',
+};
+const LONG_KEYS = new Map(Object.entries(SHORT_KEYS).map(([long, short]) => [short, long]));
+
+// What an omitted field means in a v1 link: the app defaults when v1 was
+// introduced, frozen so later changes to DEFAULT_PARAMS cannot change the
+// design an old link opens.  Part of the v1 format: never edit.
+const V1_DEFAULTS: Readonly<GenParams> = Object.freeze({
+  size: 100,
+  cellSize: 25,
+  surfaceType: 'gyroid',
+  wallThickness: 0.35,
+  useFrame: false,
+  shellThickness: 3.0,
+  frameBeamWidth: 10,
+  filletRadius: 1.0,
+  resolution: 60,
+  smoothingIterations: 2,
+  makeManifold: false,
+});
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// ─── Base64url ───────────────────────────────────────────────────────────────
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(data: string): string {
+  const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+// ─── Encoding ────────────────────────────────────────────────────────────────
+// Ports travel as [A inlet, A outlet, B inlet, B outlet], each 'z-' or
+// ['z-', u0, u1, v0, v1] when it has a window
+const PORT_SLOTS = [['a', 'inlet'], ['a', 'outlet'], ['b', 'inlet'], ['b', 'outlet']] as const;
+
+const packPorts = (layout: PortLayout) => PORT_SLOTS.map(([c, r]) => {
+  const { face, window } = layout[c][r];
+  return window ? [face, ...window] : face;
+});
+
+// Inverse of packPorts; anything else is passed on for sanitizeParams to reject
+function unpackPorts(packed: unknown): unknown {
+  if (!Array.isArray(packed) || packed.length !== 4) return packed;
+  const layout: Record<string, Record<string, unknown>> = { a: {}, b: {} };
+  PORT_SLOTS.forEach(([c, r], i) => {
+    const slot = packed[i];
+    layout[c][r] = Array.isArray(slot) ? { face: slot[0], window: slot.slice(1) } : { face: slot };
+  });
+  return layout;
+}
+
+const round = (_key: string, v: unknown) => (typeof v === 'number' ? Math.round(v * 1e4) / 1e4 : v);
+
+/** URL hash (with '#') for `params`. */
+export function encodeParamsHash(params: GenParams): string {
+  const diff: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || !(key in SHORT_KEYS)) continue;
+    if (JSON.stringify(value) === JSON.stringify(V1_DEFAULTS[key as keyof GenParams])) continue;
+    diff[SHORT_KEYS[key as keyof GenParams]] = key === 'ports' ? packPorts(value as PortLayout) : value;
+  }
+  return `#v${VERSION}=${toBase64Url(JSON.stringify(diff, round))}`;
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────────────
+/**
+ * Parameters from a URL hash, or null when the hash carries none.  Broken
+ * links decode to the defaults with the reason as an issue.
+ */
+export function decodeParamsHash(hash: string): CheckedParams | null {
+  const match = HASH_PATTERN.exec(hash);
+  if (!match) return null;
+  if (Number(match[1]) !== VERSION) {
+    return { params: { ...DEFAULT_PARAMS }, issues: [`Link version ${match[1]} is not supported, using the defaults`] };
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    return { params: { ...DEFAULT_PARAMS }, issues: ['Link is damaged, using the defaults'] };
+  }
+  if (!isObject(raw)) return { params: { ...DEFAULT_PARAMS }, issues: ['Link is damaged, using the defaults'] };
+  const expanded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const long = LONG_KEYS.get(key) ?? key;
+    expanded[long] = long === 'ports' ? unpackPorts(value) : value;
+  }
+  return sanitizeParams(expanded, V1_DEFAULTS);
+}
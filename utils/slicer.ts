@@ -0,0 +1,357 @@
+import { GenParams, ProgressCallback } from '../types';
+import { resolveBox } from './box';
+import { headerReach } from './headers';
+import { createImplicitModel } from './implicitModel';
+import { usesFrame } from './envelope';
+import { sampleGrid } from './marchingCubes';
+
+/**
+ * Layer slicer working on the implicit field instead of the mesh — for
+ * paste and clay extruders, where mesh slicers mangle thin gyroid walls.
+ *
+ * Each layer samples the part field on the XY grid of the mesh at mid-layer
+ * height and runs marching squares on it.  Because the field is a distance
+ * (approx. mm, negative inside), perimeter k is simply the contour at
+ * −(k + ½)·lineWidth: the bead centreline half a bead inside the surface.
+ * A wall thinner than one bead has no such contour, so it is printed as a
+ * single bead along its mid-surface instead — G = 0 for the TPMS wall, the
+ * shell inset by half its thickness — wherever the part there is less than
+ * half a bead deep.  Those beads are open where the wall thickens or ends.
+ * Segments are chained into paths, lightly simplified, and each layer's
+ * paths are ordered nearest-first, each entered at its point nearest the
+ * nozzle (an end, for open beads), so seams line up from layer to layer.
+ *
+ * The part is sliced as modelled, Z up.
+ */
+
+export interface SliceOptions {
+  layerHeight: number;    // mm
+  lineWidth: number;      // mm, bead width
+  perimeters: number;     // concentric loops per wall side
+}
+
+/**
+ * Loops in print order, flattened: perimeters, which close implicitly, and
+ * thin-wall beads, which may be open.  Layer k prints at height
+ * (k + 1)·layerHeight above the bed and was sampled at model Z
+ * `bottom + (k + ½)·layerHeight`.
+ */
+export interface Toolpath {
+  layerHeight: number;
+  lineWidth: number;
+  bottom: number;             // model Z of the bed (mm)
+  points: Float32Array;       // x, y per loop vertex (model mm)
+  loopStart: Uint32Array;     // first vertex of each loop, then the vertex count
+  layerStart: Uint32Array;    // first loop of each layer, then the loop count
+  closed: Uint8Array;         // per loop: 1 returns to its start, 0 ends at its last vertex
+  beads: number;              // loops that are single beads along thin walls
+  dropped: number;            // closed loops left out as shorter than MIN_LOOP line widths
+}
+
+export const layerCount = (path: Toolpath) => path.layerStart.length - 1;
+
+// Loop simplification tolerance and shortest loop kept, in line widths
+const SIMPLIFY = 0.05;
+export const MIN_LOOP = 2;
+
+// Marching squares on one layer: closed loops around the region where
+// values < level, each a flat x, y list, solid on the left (outer loops
+// counter-clockwise).  The grid border must lie outside the solid.
+function marchSquares(
+  values: Float32Array, nx: number, ny: number, ox: number, oy: number, step: number, level: number,
+): number[][] {
+  // Crossing on edge id: horizontal (x → x+1) at 2·i, vertical (y → y+1) at
+  // 2·i + 1, where i is the edge's first grid point.  `next` links the
+  // crossing where a segment starts to the one where it ends.
+  const next = new Int32Array(nx * ny * 2).fill(-1);
+  const solid = (i: number) => values[i] < level;
+
+  const crossings = new Int32Array(4);
+  for (let y = 0; y < ny - 1; y++) {
+    for (let x = 0; x < nx - 1; x++) {
+      const c0 = y * nx + x, c1 = c0 + 1, c2 = c1 + nx, c3 = c0 + nx;
+      const s0 = solid(c0), s1 = solid(c1), s2 = solid(c2), s3 = solid(c3);
+      if (s0 === s1 && s1 === s2 && s2 === s3) continue;
+
+      // Walk the cell counter-clockwise; crossings alternate exit (solid →
+      // void) and entry, and every segment runs from an exit to an entry
+      const edges = [2 * c0, 2 * c1 + 1, 2 * c3, 2 * c0 + 1];
+      const from = [s0, s1, s2, s3];
+      let n = 0;
+      for (let e = 0; e < 4; e++) {
+        if (from[e] !== from[(e + 1) % 4]) crossings[n++] = e;
+      }
+      // Saddle: a solid centre joins the two solid corners, so each exit
+      // pairs with the following entry; otherwise with the preceding one
+      const centre = (values[c0] + values[c1] + values[c2] + values[c3]) / 4 < level;
+      for (let k = 0; k < n; k++) {
+        const e = crossings[k];
+        if (!from[e]) continue;
+        const pair = crossings[(k + (n === 2 || centre ? 1 : n - 1)) % n];
+        next[edges[e]] = edges[pair];
+      }
+    }
+  }
+
+  const point = (edge: number, out: number[]) => {
+    const i = edge >> 1;
+    const j = i + (edge & 1 ? nx : 1);
+    const t = (level - values[i]) / (values[j] - values[i]);
+    const gy = (i / nx) | 0, gx = i - gy * nx;
+    out.push(ox + (gx + (edge & 1 ? 0 : t)) * step, oy + (gy + (edge & 1 ? t : 0)) * step);
+  };
+
+  const loops: number[][] = [];
+  for (let start = 0; start < next.length; start++) {
+    if (next[start] < 0) continue;
+    const loop: number[] = [];
+    let edge = start;
+    while (next[edge] >= 0) {
+      point(edge, loop);
+      const following = next[edge];
+      next[edge] = -1;
+      edge = following;
+    }
+    loops.push(loop);
+  }
+  return loops;
+}
+
+// Ramer–Douglas–Peucker on a path (flat x, y), keeping vertex 0 and, when
+// open, the last vertex
+function simplifyPath(path: number[], tolerance: number, closed: boolean): number[] {
+  const n = path.length / 2;
+  if (n < (closed ? 4 : 3)) return path;
+  const last = closed ? n : n - 1;
+  const keep = new Uint8Array(n + 1);
+  keep[0] = keep[last] = 1;
+  const at = (i: number) => (i % n) * 2;
+  const stack = [0, last];
+  while (stack.length) {
+    const b = stack.pop()!, a = stack.pop()!;
+    const ax = path[at(a)], ay = path[at(a) + 1];
+    const dx = path[at(b)] - ax, dy = path[at(b) + 1] - ay;
+    const len = Math.hypot(dx, dy);
+    let worst = -1, far = 0;
+    for (let i = a + 1; i < b; i++) {
+      const px = path[at(i)] - ax, py = path[at(i) + 1] - ay;
+      // Distance to the chord; to its end point when a and b coincide
+      const d = len > 1e-9 ? Math.abs(px * dy - py * dx) / len : Math.hypot(px, py);
+      if (d > far) { far = d; worst = i; }
+    }
+    if (worst >= 0 && far > tolerance) {
+      keep[worst] = 1;
+      stack.push(a, worst, worst, b);
+    }
+  }
+  const out: number[] = [];
+  for (let i = 0; i < n; i++) if (keep[i]) out.push(path[i * 2], path[i * 2 + 1]);
+  return out;
+}
+
+function pathLength(path: number[], closed: boolean): number {
+  let length = 0;
+  const end = closed ? path.length : path.length - 2;
+  for (let i = 0; i < end; i += 2) {
+    const j = (i + 2) % path.length;
+    length += Math.hypot(path[j] - path[i], path[j + 1] - path[i + 1]);
+  }
+  return length;
+}
+
+interface Path {
+  points: number[];
+  closed: boolean;
+  bead: boolean;
+}
+
+// The runs of a closed contour whose vertices pass `keep`: the whole loop
+// when all do, else one open path per run
+function splitLoop(loop: number[], keep: (x: number, y: number) => boolean): number[][] {
+  const n = loop.length / 2;
+  const pass: boolean[] = [];
+  for (let i = 0; i < n; i++) pass.push(keep(loop[i * 2], loop[i * 2 + 1]));
+  const gap = pass.indexOf(false);
+  if (gap < 0) return [loop];
+  const runs: number[][] = [];
+  let run: number[] = [];
+  for (let s = 1; s <= n; s++) {
+    const i = (gap + s) % n;
+    if (pass[i]) {
+      run.push(loop[i * 2], loop[i * 2 + 1]);
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  return runs;
+}
+
+/**
+ * Slice the part into perimeter loops and thin-wall beads, layer by layer.
+ * Layers with nothing to print below the first and above the last are
+ * dropped.  Yields every few layers; if `signal` aborts, the next yield
+ * throws its reason.
+ */
+export async function slicePart(
+  params: GenParams,
+  options: SliceOptions,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Toolpath> {
+  const { layerHeight, lineWidth } = options;
+  const perimeters = Math.max(1, Math.floor(options.perimeters));
+  if (!(layerHeight > 0) || !(lineWidth > 0)) throw new Error('Layer height and line width must be positive');
+
+  const grid = sampleGrid(params);
+  const { step, nx, ny, ox, oy } = grid;
+  const model = createImplicitModel(params, step);
+  const { surface, scales, envelope, toMM } = model;
+
+  // Walls whose half thickness is below half a bead (plus the simplification
+  // tolerance) have no first-perimeter contour worth printing: they get a
+  // bead along the mid-surface, where the part there is that shallow
+  const halfBead = (0.5 + SIMPLIFY) * lineWidth;
+  const shallow = (x: number, y: number, z: number, G: number) => {
+    const d = model.solid(x, y, z, G);
+    return d < 0 && d > -halfBead;
+  };
+  const shellMid = params.shellThickness / 2;
+  const mids: { values: Float32Array; thin: (x: number, y: number, z: number) => boolean }[] = [{
+    // TPMS wall: G = 0, graded thickness
+    values: new Float32Array(nx * ny),
+    thin: (x, y, z) => model.wallThicknessAt(x, y, z) * toMM < halfBead && shallow(x, y, z, 0),
+  }];
+  if (!usesFrame(params) && shellMid < halfBead) {
+    mids.push({
+      values: new Float32Array(nx * ny),
+      thin: (x, y, z) => shallow(x, y, z, model.tpms(x, y, z)),
+    });
+  }
+
+  const reach = resolveBox(params).half[2] + headerReach(params, 'z');
+  const layers = Math.max(1, Math.round((2 * reach) / layerHeight));
+  const bottom = -reach;
+
+  // Per-axis coordinates and sin/cos, as in createLayerSampler
+  const table = (n: number, o: number, sc: number) => {
+    const mm = new Float32Array(n), sin = new Float32Array(n), cos = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      mm[i] = o + i * step;
+      sin[i] = Math.sin(mm[i] * sc);
+      cos[i] = Math.cos(mm[i] * sc);
+    }
+    return { mm, sin, cos };
+  };
+  const X = table(nx, ox, scales[0]);
+  const Y = table(ny, oy, scales[1]);
+  const values = new Float32Array(nx * ny);
+  // The mid-surface grids' border is set outside so every contour closes
+  const border = (i: number) => {
+    const y = (i / nx) | 0, x = i - y * nx;
+    return x === 0 || y === 0 || x === nx - 1 || y === ny - 1;
+  };
+
+  const points: number[] = [];
+  const loopStart: number[] = [];
+  const layerStart: number[] = [];
+  const closed: number[] = [];
+  let beads = 0, dropped = 0;
+  let first = -1, last = -1;
+  // Nozzle position, carried across layers so seams stack
+  let px = ox, py = oy;
+
+  for (let k = 0; k < layers; k++) {
+    if (k % Math.max(1, (layers / 20) | 0) === 0) {
+      onProgress((k / layers) * 100);
+      await new Promise(r => setTimeout(r, 0));
+      signal?.throwIfAborted();
+    }
+
+    const z = bottom + (k + 0.5) * layerHeight;
+    const sz = Math.sin(z * scales[2]), cz = Math.cos(z * scales[2]);
+    for (let yi = 0, i = 0; yi < ny; yi++) {
+      for (let xi = 0; xi < nx; xi++, i++) {
+        const G = surface(X.sin[xi], X.cos[xi], Y.sin[yi], Y.cos[yi], sz, cz);
+        values[i] = model.solid(X.mm[xi], Y.mm[yi], z, G);
+        mids[0].values[i] = border(i) ? 1 : G;
+        if (mids.length > 1) mids[1].values[i] = border(i) ? 1 : envelope.dist(X.mm[xi], Y.mm[yi], z, shellMid);
+      }
+    }
+
+    const loops: Path[] = [];
+    const add = (path: number[], isClosed: boolean, bead: boolean) => {
+      const simple = simplifyPath(path, SIMPLIFY * lineWidth, isClosed);
+      if (simple.length >= (isClosed ? 6 : 4) && pathLength(simple, isClosed) >= MIN_LOOP * lineWidth) {
+        loops.push({ points: simple, closed: isClosed, bead });
+      } else if (isClosed && pathLength(path, true) >= lineWidth) {
+        // A whole feature lost; short open runs are stubs where a thin wall
+        // meets a thicker part, whose perimeter covers them
+        dropped++;
+      }
+    };
+    for (let p = 0; p < perimeters; p++) {
+      for (const loop of marchSquares(values, nx, ny, ox, oy, step, -(p + 0.5) * lineWidth)) add(loop, true, false);
+    }
+    for (const { values: mid, thin } of mids) {
+      for (const loop of marchSquares(mid, nx, ny, ox, oy, step, 0)) {
+        const runs = splitLoop(loop, (x, y) => thin(x, y, z));
+        for (const run of runs) add(run, run === loop, true);
+      }
+    }
+
+    layerStart.push(loopStart.length);
+    if (loops.length > 0) {
+      if (first < 0) first = k;
+      last = k;
+    }
+
+    // Nearest loop next, entered at its vertex nearest the nozzle; open
+    // beads only at an end, and run backwards when entered at the last one
+    const done = new Uint8Array(loops.length);
+    for (let n = 0; n < loops.length; n++) {
+      let best = -1, bestVertex = 0, bestDist = Infinity;
+      for (let l = 0; l < loops.length; l++) {
+        if (done[l]) continue;
+        const loop = loops[l].points;
+        const stride = loops[l].closed ? 2 : Math.max(2, loop.length - 2);
+        for (let i = 0; i < loop.length; i += stride) {
+          const d = (loop[i] - px) ** 2 + (loop[i + 1] - py) ** 2;
+          if (d < bestDist) { bestDist = d; best = l; bestVertex = i; }
+        }
+      }
+      done[best] = 1;
+      const { points: loop, closed: isClosed, bead } = loops[best];
+      loopStart.push(points.length / 2);
+      closed.push(isClosed ? 1 : 0);
+      if (bead) beads++;
+      const reverse = !isClosed && bestVertex > 0;
+      for (let i = 0; i < loop.length; i += 2) {
+        const j = reverse ? loop.length - 2 - i : (bestVertex + i) % loop.length;
+        points.push(loop[j], loop[j + 1]);
+      }
+      px = points[points.length - (isClosed ? loop.length : 2)];
+      py = points[points.length - (isClosed ? loop.length : 2) + 1];
+    }
+  }
+  if (first < 0) throw new Error('Nothing to print: no walls long enough at this line width');
+
+  // Trim empty layers off both ends and rebase the bed on the first one
+  const loopsFrom = layerStart[first];
+  const loopsTo = last + 1 < layers ? layerStart[last + 1] : loopStart.length;
+  const pointsFrom = loopStart[loopsFrom];
+  const pointsTo = loopsTo < loopStart.length ? loopStart[loopsTo] : points.length / 2;
+  onProgress(100);
+
+  return {
+    layerHeight,
+    lineWidth,
+    bottom: bottom + first * layerHeight,
+    points: new Float32Array(points.slice(pointsFrom * 2, pointsTo * 2)),
+    loopStart: Uint32Array.from([...loopStart.slice(loopsFrom, loopsTo), pointsTo], v => v - pointsFrom),
+    layerStart: Uint32Array.from([...layerStart.slice(first, last + 1), loopsTo], v => v - loopsFrom),
+    closed: Uint8Array.from(closed.slice(loopsFrom, loopsTo)),
+    beads,
+    dropped,
+  };
+}
@@ -0,0 +1,51 @@
+import { GenParams, MeshData } from '../types';
+
+/**
+ * Design snapshots — recent generation results kept in memory so an earlier
+ * design can be brought back without regenerating.
+ *
+ * Snapshots share the mesh arrays with the app state (nothing is copied);
+ * the budget counts their typed-array bytes, and the oldest snapshots are
+ * evicted first.  The newest snapshot is always kept, even over budget.
+ */
+
+/** Default memory budget for snapshot meshes (bytes). */
+export const SNAPSHOT_BUDGET = 512 * 1024 * 1024;
+
+/** Most snapshots kept regardless of size. */
+export const MAX_SNAPSHOTS = 12;
+
+export interface Snapshot {
+  id: number;
+  params: GenParams;
+  mesh: MeshData;
+  thumbnail: string;      // PNG data URL ('' when unavailable)
+  faces: number;
+  vertices: number;
+  seconds: number;        // generation time
+  createdAt: number;      // Date.now()
+  bytes: number;
+}
+
+/** Memory held by a mesh's typed arrays (bytes). */
+export const meshBytes = (mesh: MeshData): number =>
+  mesh.vertices.byteLength + mesh.normals.byteLength + mesh.indices.byteLength;
+
+/** Total bytes held by `snapshots`. */
+export const snapshotBytes = (snapshots: Snapshot[]): number =>
+  snapshots.reduce((sum, s) => sum + s.bytes, 0);
+
+/**
+ * Add `snapshot` as the newest entry (list is newest first), replacing an
+ * older one with identical parameters, then evict from the old end until
+ * the list fits the budget.
+ */
+export function addSnapshot(snapshots: Snapshot[], snapshot: Snapshot, budget = SNAPSHOT_BUDGET): Snapshot[] {
+  const key = JSON.stringify(snapshot.params);
+  const next = [snapshot, ...snapshots.filter(s => JSON.stringify(s.params) !== key)];
+  let bytes = snapshotBytes(next);
+  while (next.length > 1 && (bytes > budget || next.length > MAX_SNAPSHOTS)) {
+    bytes -= next.pop()!.bytes;
+  }
+  return next;
+}
@@ -1,17 +1,71 @@
 import { MeshData } from '../types';
+import { createTextChunks } from './textChunks';
+
+/** Binary STL header: 80 bytes of zeros + 4-byte triangle count. */
+export const STL_HEADER_BYTES = 84;
+
+/** Bytes per binary STL facet. */
+export const STL_FACET_BYTES = 50;
+
+// Unit normal of the triangle whose corners start at float offsets a, b, c
+// of `p` (zero for degenerate faces)
+function triangleNormal(p: Float32Array, a: number, b: number, c: number): [number, number, number] {
+  // Compute face normal from cross product
+  const ax = p[b]     - p[a];
+  const ay = p[b + 1] - p[a + 1];
+  const az = p[b + 2] - p[a + 2];
+  const bx = p[c]     - p[a];
+  const by = p[c + 1] - p[a + 1];
+  const bz = p[c + 2] - p[a + 2];
+
+  let nx = ay * bz - az * by;
+  let ny = az * bx - ax * bz;
+  let nz = ax * by - ay * bx;
+  const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  if (len > 1e-8) { nx /= len; ny /= len; nz /= len; }
+  else { nx = 0; ny = 0; nz = 0; }
+  return [nx, ny, nz];
+}
+
+// Unit face normal of triangle f
+const faceNormal = (vertices: Float32Array, indices: Uint32Array, f: number) =>
+  triangleNormal(vertices, indices[f * 3] * 3, indices[f * 3 + 1] * 3, indices[f * 3 + 2] * 3);
+
+/** Binary STL header for `numTriangles` facets. */
+export function stlHeader(numTriangles: number): Uint8Array {
+  const header = new Uint8Array(STL_HEADER_BYTES);
+  new DataView(header.buffer).setUint32(80, numTriangles, true);
+  return header;
+}
 
 /**
- * Export an indexed mesh to binary STL.
- * STL is inherently a "triangle soup" format, so we de-index the mesh here.
+ * Binary STL facets (no header) for a triangle soup of 9 floats per
+ * triangle — the body chunks of a streamed STL (see ./stlStream).
  */
-export const exportToSTL = (data: MeshData, filename: string) => {
-  const { vertices, normals, indices } = data;
+export function serializeSTLFacets(triangles: Float32Array): Uint8Array {
+  const numTriangles = triangles.length / 9;
+  const buffer = new ArrayBuffer(numTriangles * STL_FACET_BYTES);
+  const view = new DataView(buffer);
 
-  if (!indices || indices.length === 0) {
-    console.warn('No triangles to export');
-    return;
+  for (let f = 0, offset = 0; f < numTriangles; f++, offset += STL_FACET_BYTES) {
+    const t = f * 9;
+    const [nx, ny, nz] = triangleNormal(triangles, t, t + 3, t + 6);
+    view.setFloat32(offset,     nx, true);
+    view.setFloat32(offset + 4, ny, true);
+    view.setFloat32(offset + 8, nz, true);
+    for (let k = 0; k < 9; k++) view.setFloat32(offset + 12 + k * 4, triangles[t + k], true);
+    view.setUint16(offset + 48, 0, true);
   }
 
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Serialize an indexed mesh to binary STL.
+ * STL is inherently a "triangle soup" format, so we de-index the mesh here.
+ */
+export function serializeSTL(data: MeshData): Uint8Array {
+  const { vertices, indices } = data;
   const numTriangles = indices.length / 3;
 
   // Binary STL: 80-byte header + 4-byte count + 50 bytes per triangle
@@ -25,44 +79,20 @@ export const exportToSTL = (data: MeshData, filename: string) => {
 
   let offset = 84;
   for (let f = 0; f < numTriangles; f++) {
-    const i0 = indices[f * 3];
-    const i1 = indices[f * 3 + 1];
-    const i2 = indices[f * 3 + 2];
-
-    // Compute face normal from cross product
-    const ax = vertices[i1 * 3]     - vertices[i0 * 3];
-    const ay = vertices[i1 * 3 + 1] - vertices[i0 * 3 + 1];
-    const az = vertices[i1 * 3 + 2] - vertices[i0 * 3 + 2];
-    const bx = vertices[i2 * 3]     - vertices[i0 * 3];
-    const by = vertices[i2 * 3 + 1] - vertices[i0 * 3 + 1];
-    const bz = vertices[i2 * 3 + 2] - vertices[i0 * 3 + 2];
-
-    let nx = ay * bz - az * by;
-    let ny = az * bx - ax * bz;
-    let nz = ax * by - ay * bx;
-    const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
-    if (len > 1e-8) { nx /= len; ny /= len; nz /= len; }
-    else { nx = 0; ny = 0; nz = 0; }
+    const [nx, ny, nz] = faceNormal(vertices, indices, f);
 
     // Normal
     view.setFloat32(offset,     nx, true);
     view.setFloat32(offset + 4, ny, true);
     view.setFloat32(offset + 8, nz, true);
 
-    // Vertex 0
-    view.setFloat32(offset + 12, vertices[i0 * 3],     true);
-    view.setFloat32(offset + 16, vertices[i0 * 3 + 1], true);
-    view.setFloat32(offset + 20, vertices[i0 * 3 + 2], true);
-
-    // Vertex 1
-    view.setFloat32(offset + 24, vertices[i1 * 3],     true);
-    view.setFloat32(offset + 28, vertices[i1 * 3 + 1], true);
-    view.setFloat32(offset + 32, vertices[i1 * 3 + 2], true);
-
-    // Vertex 2
-    view.setFloat32(offset + 36, vertices[i2 * 3],     true);
-    view.setFloat32(offset + 40, vertices[i2 * 3 + 1], true);
-    view.setFloat32(offset + 44, vertices[i2 * 3 + 2], true);
+    // Vertices 0..2
+    for (let k = 0; k < 3; k++) {
+      const v = indices[f * 3 + k];
+      view.setFloat32(offset + 12 + k * 12, vertices[v * 3],     true);
+      view.setFloat32(offset + 16 + k * 12, vertices[v * 3 + 1], true);
+      view.setFloat32(offset + 20 + k * 12, vertices[v * 3 + 2], true);
+    }
 
     // Attribute byte count
     view.setUint16(offset + 48, 0, true);
@@ -70,13 +100,34 @@ export const exportToSTL = (data: MeshData, filename: string) => {
     offset += 50;
   }
 
-  const blob = new Blob([buffer], { type: 'application/octet-stream' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Serialize an indexed mesh to ASCII STL.  A mesh with groups becomes one
+ * named solid per group (the multi-region STL that CFD meshers read).
+ */
+export function serializeASCIISTL(data: MeshData, name = 'gyroidgen'): Uint8Array[] {
+  const { vertices, indices } = data;
+  const numTriangles = indices.length / 3;
+  const groups = data.groups ?? [{ name, start: 0, count: numTriangles }];
+  const out = createTextChunks();
+
+  for (const group of groups) {
+    out.line(`solid ${group.name}`);
+    for (let f = group.start; f < group.start + group.count; f++) {
+      const [nx, ny, nz] = faceNormal(vertices, indices, f);
+      out.line(`  facet normal ${nx.toExponential(6)} ${ny.toExponential(6)} ${nz.toExponential(6)}`);
+      out.line('    outer loop');
+      for (let k = 0; k < 3; k++) {
+        const v = indices[f * 3 + k];
+        out.line(`      vertex ${vertices[v * 3].toExponential(6)} ${vertices[v * 3 + 1].toExponential(6)} ${vertices[v * 3 + 2].toExponential(6)}`);
+      }
+      out.line('    endloop');
+      out.line('  endfacet');
+    }
+    out.line(`endsolid ${group.name}`);
+  }
+
+  return out.finish();
+}
@@ -0,0 +1,72 @@
+import { GenParams, ProgressCallback } from '../types';
+import { streamGyroidMesh } from './marchingCubes';
+import { STL_FACET_BYTES, STL_HEADER_BYTES, serializeSTLFacets, stlHeader } from './stl';
+
+/**
+ * Streaming binary STL export — for parts too large to hold as one mesh or
+ * one file buffer.  Facets are written slab by slab as marching cubes
+ * produces them, behind a placeholder header; the triangle count is only
+ * known at the end and is patched into the header then.
+ *
+ * The streamed surface is the raw marching-cubes mesh (see
+ * `streamGyroidMesh`): no smoothing, fragment removal or metrics.
+ */
+
+/** Ordered byte destination that can go back and patch what it wrote. */
+export interface ByteSink {
+  write(chunk: Uint8Array): Promise<void>;
+  /** Overwrite bytes already written, starting at `position`. */
+  patch(position: number, data: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  /** Discard the partial output. */
+  abort(): Promise<void>;
+}
+
+/** Receives one chunk of facets; a returned promise holds back meshing until it settles. */
+export type ChunkCallback = (chunk: Uint8Array) => void | Promise<void>;
+
+/**
+ * Mesh the part and hand out its binary STL facets one slab at a time.
+ * Resolves with the number of triangles written.
+ */
+export async function streamPartSTL(
+  params: GenParams,
+  onChunk: ChunkCallback,
+  onProgress: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<number> {
+  let triangles = 0;
+  await streamGyroidMesh(params, async (soup) => {
+    if (soup.length === 0) return;
+    triangles += soup.length / 9;
+    await onChunk(serializeSTLFacets(soup));
+  }, onProgress, signal);
+  if (triangles === 0) throw new Error('No triangles to export');
+  return triangles;
+}
+
+/**
+ * Write a streamed STL to `sink`: placeholder header, the facets `produce`
+ * emits, then the real header.  `produce` resolves with the triangle count
+ * (e.g. `streamPartSTL`).  On failure the sink is aborted and the error
+ * rethrown.
+ */
+export async function writeSTLStream(
+  sink: ByteSink,
+  produce: (onChunk: ChunkCallback) => Promise<number>,
+): Promise<{ triangles: number; bytes: number }> {
+  // Writes are chained so chunks land in order even when `produce` does not
+  // wait for them (chunks arriving from a worker)
+  let pending = sink.write(new Uint8Array(STL_HEADER_BYTES));
+  try {
+    const triangles = await produce((chunk) => (pending = pending.then(() => sink.write(chunk))));
+    await pending;
+    await sink.patch(0, stlHeader(triangles));
+    await sink.close();
+    return { triangles, bytes: STL_HEADER_BYTES + triangles * STL_FACET_BYTES };
+  } catch (e) {
+    await pending.catch(() => {});
+    await sink.abort().catch(() => {});
+    throw e;
+  }
+}
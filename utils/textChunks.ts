@@ -0,0 +1,38 @@
+/**
+ * Line-by-line text output collected as UTF-8 chunks of about 1 MB rather
+ * than one string, so exports larger than V8's string limit (~512 MB)
+ * still build and the caller never holds the text twice.
+ */
+export interface TextChunks {
+  line(text: string): void;
+  /** The encoded chunks, each line terminated by "\n". */
+  finish(): Uint8Array[];
+}
+
+const CHUNK_CHARS = 1 << 20;
+
+export function createTextChunks(): TextChunks {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let pending: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    chunks.push(encoder.encode(pending.join('\n') + '\n'));
+    pending = [];
+    length = 0;
+  };
+
+  return {
+    line(text) {
+      pending.push(text);
+      length += text.length + 1;
+      if (length >= CHUNK_CHARS) flush();
+    },
+    finish() {
+      flush();
+      return chunks;
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import { GenParams, MeshData } from '../types';
+import { buildZip } from './zip';
+import { labelComponents, subMesh } from './meshTopology';
+import { createImplicitModel } from './implicitModel';
+import { resolveBox } from './box';
+import { usesFrame } from './envelope';
+
+/**
+ * 3MF export — indexed geometry straight from MeshData, millimetre units,
+ * and the full GenParams stored as package metadata.
+ *
+ * Each connected component is attributed to the TPMS core or to the
+ * shell/frame, by which term of the implicit field owns most of its
+ * vertices.  When both roles occur in separate components (e.g. frame beams
+ * that never touch the walls) they are written as separate objects.
+ */
+
+const CORE_NS = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const APP_NS  = 'https://github.com/DisruptivelyUseful/Gyroid-Gen/3mf';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 4 decimals = 0.1 µm, far below any printer resolution
+const fmt = (v: number) => String(Math.round(v * 1e4) / 1e4);
+
+/**
+ * Split the mesh into a core body and a shell/frame body when the two are
+ * separate components; otherwise return the whole mesh as one body.
+ */
+function separateBodies(data: MeshData, params: GenParams): { name: string; mesh: MeshData }[] {
+  const { labels, count } = labelComponents(data);
+  if (count <= 1) return [{ name: 'Core', mesh: data }];
+
+  const step = Math.max(...resolveBox(params).dims) / params.resolution;
+  const model = createImplicitModel(params, step);
+
+  // Vote per component: does the shell/frame term or the wall term own the vertex?
+  const boundaryVotes = new Uint32Array(count);
+  const totalVotes = new Uint32Array(count);
+  const v = data.vertices;
+  for (let i = 0; i < labels.length; i++) {
+    const x = v[i * 3], y = v[i * 3 + 1], z = v[i * 3 + 2];
+    const G = model.tpms(x, y, z);
+    if (model.structural(x, y, z, G) < model.wall(x, y, z, G)) boundaryVotes[labels[i]]++;
+    totalVotes[labels[i]]++;
+  }
+
+  const numFaces = data.indices.length / 3;
+  const coreMask = new Uint8Array(numFaces);
+  const boundaryMask = new Uint8Array(numFaces);
+  let hasCore = false, hasBoundary = false;
+  for (let f = 0; f < numFaces; f++) {
+    const c = labels[data.indices[f * 3]];
+    if (boundaryVotes[c] * 2 > totalVotes[c]) { boundaryMask[f] = 1; hasBoundary = true; }
+    else { coreMask[f] = 1; hasCore = true; }
+  }
+  if (!hasCore || !hasBoundary) return [{ name: 'Core', mesh: data }];
+
+  return [
+    { name: 'Core', mesh: subMesh(data, coreMask) },
+    { name: usesFrame(params) ? 'Frame' : 'Shell', mesh: subMesh(data, boundaryMask) },
+  ];
+}
+
+/** Serialize a mesh to a 3MF package (ZIP bytes). */
+export function build3MF(data: MeshData, params: GenParams): Uint8Array {
+  const enc = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let pending: string[] = [];
+  const emit = (s: string) => {
+    pending.push(s);
+    if (pending.length >= 8192) {
+      chunks.push(enc.encode(pending.join('')));
+      pending = [];
+    }
+  };
+
+  const bodies = separateBodies(data, params);
+
+  // 3MF build plates live in positive space: shift the part's min corner to 0
+  const v = data.vertices;
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  for (let i = 0; i < v.length; i += 3) {
+    if (v[i] < minX) minX = v[i];
+    if (v[i + 1] < minY) minY = v[i + 1];
+    if (v[i + 2] < minZ) minZ = v[i + 2];
+  }
+  if (!isFinite(minX)) minX = minY = minZ = 0;
+  const transform = `1 0 0 0 1 0 0 0 1 ${fmt(-minX)} ${fmt(-minY)} ${fmt(-minZ)}`;
+
+  const surface = params.surfaceType ?? 'gyroid';
+  emit('<?xml version="1.0" encoding="UTF-8"?>\n');
+  emit(`<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NS}" xmlns:gyroidgen="${APP_NS}">\n`);
+  emit(`  <metadata name="Title">${escapeXml(`${surface} heat exchanger core`)}</metadata>\n`);
+  emit('  <metadata name="Application">GyroidGen</metadata>\n');
+  emit(`  <metadata name="CreationDate">${new Date().toISOString().slice(0, 10)}</metadata>\n`);
+  emit(`  <metadata name="gyroidgen:GenParams" preserve="1">${escapeXml(JSON.stringify(params))}</metadata>\n`);
+  emit('  <resources>\n');
+
+  bodies.forEach(({ name, mesh }, o) => {
+    emit(`    <object id="${o + 1}" name="${escapeXml(name)}" type="model">\n`);
+    emit('      <mesh>\n        <vertices>\n');
+    const pv = mesh.vertices;
+    for (let i = 0; i < pv.length; i += 3) {
+      emit(`          <vertex x="${fmt(pv[i])}" y="${fmt(pv[i + 1])}" z="${fmt(pv[i + 2])}"/>\n`);
+    }
+    emit('        </vertices>\n        <triangles>\n');
+    const pi = mesh.indices;
+    for (let f = 0; f < pi.length; f += 3) {
+      const a = pi[f], b = pi[f + 1], c = pi[f + 2];
+      if (a === b || b === c || a === c) continue; // 3MF forbids degenerate triangles
+      emit(`          <triangle v1="${a}" v2="${b}" v3="${c}"/>\n`);
+    }
+    emit('        </triangles>\n      </mesh>\n    </object>\n');
+  });
+
+  emit('  </resources>\n  <build>\n');
+  bodies.forEach((_, o) => emit(`    <item objectid="${o + 1}" transform="${transform}"/>\n`));
+  emit('  </build>\n</model>\n');
+  chunks.push(enc.encode(pending.join('')));
+
+  // Concatenate the model XML
+  let len = 0;
+  for (const c of chunks) len += c.length;
+  const model = new Uint8Array(len);
+  let off = 0;
+  for (const c of chunks) { model.set(c, off); off += c.length; }
+
+  return buildZip([
+    { name: '[Content_Types].xml', data: enc.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: enc.encode(RELS) },
+    { name: '3D/3dmodel.model', data: model },
+  ]);
+}
@@ -0,0 +1,107 @@
+import { MeshData } from '../types';
+
+/**
+ * Small preview image of a mesh — a z-buffered software render from the
+ * viewport's default camera direction, flat shaded.  Runs without WebGL so
+ * it works for any mesh the app holds, whatever the viewport shows.
+ */
+
+// From the default camera position towards the origin
+const VIEW = normalize([-1.5, -1.2, -1.5]);
+const LIGHT = normalize([0.5, 1, 0.8]);
+
+function normalize(v: number[]): [number, number, number] {
+  const len = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / len, v[1] / len, v[2] / len];
+}
+
+const cross = (a: number[], b: number[]) =>
+  [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+/** PNG data URL of a `size`×`size` render with a transparent background. */
+export function renderThumbnail(mesh: MeshData, size = 96): string {
+  const { vertices, indices } = mesh;
+  const numVerts = vertices.length / 3;
+
+  // Screen basis: right and up perpendicular to the view direction
+  const right = normalize(cross(VIEW, [0, 1, 0]));
+  const up = cross(right, VIEW);
+
+  // Project every vertex once: screen u, v and depth along the view
+  const proj = new Float32Array(numVerts * 3);
+  let uMin = Infinity, uMax = -Infinity, vMin = Infinity, vMax = -Infinity;
+  for (let i = 0; i < numVerts; i++) {
+    const x = vertices[i * 3], y = vertices[i * 3 + 1], z = vertices[i * 3 + 2];
+    const u = x * right[0] + y * right[1] + z * right[2];
+    const v = x * up[0] + y * up[1] + z * up[2];
+    proj[i * 3]     = u;
+    proj[i * 3 + 1] = v;
+    proj[i * 3 + 2] = x * VIEW[0] + y * VIEW[1] + z * VIEW[2];
+    if (u < uMin) uMin = u; if (u > uMax) uMax = u;
+    if (v < vMin) vMin = v; if (v > vMax) vMax = v;
+  }
+
+  // Fit the projection into the image with a small margin, v pointing up
+  const margin = size * 0.06;
+  const scale = (size - 2 * margin) / Math.max(uMax - uMin, vMax - vMin, 1e-9);
+  const cu = (uMin + uMax) / 2, cv = (vMin + vMax) / 2;
+  for (let i = 0; i < numVerts; i++) {
+    proj[i * 3]     = size / 2 + (proj[i * 3] - cu) * scale;
+    proj[i * 3 + 1] = size / 2 - (proj[i * 3 + 1] - cv) * scale;
+  }
+
+  const depth = new Float32Array(size * size).fill(Infinity);
+  const shade = new Float32Array(size * size);
+
+  for (let f = 0; f < indices.length; f += 3) {
+    const a = indices[f] * 3, b = indices[f + 1] * 3, c = indices[f + 2] * 3;
+
+    // World normal for culling and shading
+    const e1 = [vertices[b] - vertices[a], vertices[b + 1] - vertices[a + 1], vertices[b + 2] - vertices[a + 2]];
+    const e2 = [vertices[c] - vertices[a], vertices[c + 1] - vertices[a + 1], vertices[c + 2] - vertices[a + 2]];
+    const n = normalize(cross(e1, e2));
+    if (n[0] * VIEW[0] + n[1] * VIEW[1] + n[2] * VIEW[2] >= 0) continue;   // back face
+    const light = 0.35 + 0.65 * Math.max(0, n[0] * LIGHT[0] + n[1] * LIGHT[1] + n[2] * LIGHT[2]);
+
+    const ax = proj[a], ay = proj[a + 1], az = proj[a + 2];
+    const bx = proj[b], by = proj[b + 1], bz = proj[b + 2];
+    const cx = proj[c], cy = proj[c + 1], cz = proj[c + 2];
+    const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    if (Math.abs(area) < 1e-12) continue;
+
+    // Pixel centres inside the triangle (barycentric test)
+    const x0 = Math.max(0, Math.ceil(Math.min(ax, bx, cx) - 0.5));
+    const x1 = Math.min(size - 1, Math.floor(Math.max(ax, bx, cx) - 0.5));
+    const y0 = Math.max(0, Math.ceil(Math.min(ay, by, cy) - 0.5));
+    const y1 = Math.min(size - 1, Math.floor(Math.max(ay, by, cy) - 0.5));
+    for (let py = y0; py <= y1; py++) {
+      const sy = py + 0.5;
+      for (let px = x0; px <= x1; px++) {
+        const sx = px + 0.5;
+        const w0 = ((bx - sx) * (cy - sy) - (by - sy) * (cx - sx)) / area;
+        const w1 = ((cx - sx) * (ay - sy) - (cy - sy) * (ax - sx)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        const z = w0 * az + w1 * bz + w2 * cz;
+        const p = py * size + px;
+        if (z < depth[p]) { depth[p] = z; shade[p] = light; }
+      }
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const image = ctx.createImageData(size, size);
+  for (let p = 0; p < size * size; p++) {
+    if (depth[p] === Infinity) continue;
+    // #4ade80, the viewport material
+    image.data[p * 4]     = 74 * shade[p];
+    image.data[p * 4 + 1] = 222 * shade[p];
+    image.data[p * 4 + 2] = 128 * shade[p];
+    image.data[p * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+}
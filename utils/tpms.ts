@@ -0,0 +1,91 @@
+import { SurfaceType } from '../types';
+
+/**
+ * Triply periodic minimal surface (TPMS) level-set approximations.
+ *
+ * Every function takes the sine and cosine of the three phase coordinates
+ * (x·2π/cell, …) so callers can precompute them once per grid axis.
+ * Double-angle terms are derived from those on the fly.
+ *
+ * The raw trigonometric forms have very different amplitudes (Schwarz P
+ * spans ±3, Neovius ±13, …), so each one is rescaled so that its mean
+ * gradient magnitude on the zero surface matches the gyroid's (≈1.53).
+ * With that normalisation the same `wallThickness` threshold produces a
+ * wall of roughly the same physical thickness on every surface family.
+ */
+export type TPMSFunction = (
+  sx: number, cx: number,
+  sy: number, cy: number,
+  sz: number, cz: number,
+) => number;
+
+/** Mean |∇F| on F = 0 shared by every normalised surface (phase units). */
+export const TPMS_MEAN_GRADIENT = 1.532;
+
+// Normalisation factors: 1.5319 / mean |∇F| on F = 0 (sampled numerically)
+const NORM_SCHWARZ_P = 1.160;
+const NORM_SCHWARZ_D = 1.024;
+const NORM_NEOVIUS   = 0.5625;
+const NORM_LIDINOID  = 1.188;
+const NORM_SPLIT_P   = 0.6923;
+const NORM_IWP       = 0.3585;
+
+export const TPMS_FUNCTIONS: Record<SurfaceType, TPMSFunction> = {
+  // sin x cos y + sin y cos z + sin z cos x
+  gyroid: (sx, cx, sy, cy, sz, cz) =>
+    sx * cy + sy * cz + sz * cx,
+
+  // cos x + cos y + cos z
+  schwarzP: (_sx, cx, _sy, cy, _sz, cz) =>
+    NORM_SCHWARZ_P * (cx + cy + cz),
+
+  // sin x sin y sin z + sin x cos y cos z + cos x sin y cos z + cos x cos y sin z
+  schwarzD: (sx, cx, sy, cy, sz, cz) =>
+    NORM_SCHWARZ_D * (sx * sy * sz + sx * cy * cz + cx * sy * cz + cx * cy * sz),
+
+  // 3(cos x + cos y + cos z) + 4 cos x cos y cos z
+  neovius: (_sx, cx, _sy, cy, _sz, cz) =>
+    NORM_NEOVIUS * (3 * (cx + cy + cz) + 4 * cx * cy * cz),
+
+  // ½(sin 2x cos y sin z + sin 2y cos z sin x + sin 2z cos x sin y)
+  //   − ½(cos 2x cos 2y + cos 2y cos 2z + cos 2z cos 2x) + 0.15
+  lidinoid: (sx, cx, sy, cy, sz, cz) => {
+    const s2x = 2 * sx * cx, s2y = 2 * sy * cy, s2z = 2 * sz * cz;
+    const c2x = cx * cx - sx * sx, c2y = cy * cy - sy * sy, c2z = cz * cz - sz * sz;
+    return NORM_LIDINOID * (
+      0.5 * (s2x * cy * sz + s2y * cz * sx + s2z * cx * sy)
+      - 0.5 * (c2x * c2y + c2y * c2z + c2z * c2x)
+      + 0.15
+    );
+  },
+
+  // 1.1(sin 2x sin z cos y + sin 2y sin x cos z + sin 2z sin y cos x)
+  //   − 0.2(cos 2x cos 2y + cos 2y cos 2z + cos 2z cos 2x)
+  //   − 0.4(cos 2x + cos 2y + cos 2z)
+  splitP: (sx, cx, sy, cy, sz, cz) => {
+    const s2x = 2 * sx * cx, s2y = 2 * sy * cy, s2z = 2 * sz * cz;
+    const c2x = cx * cx - sx * sx, c2y = cy * cy - sy * sy, c2z = cz * cz - sz * sz;
+    return NORM_SPLIT_P * (
+      1.1 * (s2x * sz * cy + s2y * sx * cz + s2z * sy * cx)
+      - 0.2 * (c2x * c2y + c2y * c2z + c2z * c2x)
+      - 0.4 * (c2x + c2y + c2z)
+    );
+  },
+
+  // 2(cos x cos y + cos y cos z + cos z cos x) − (cos 2x + cos 2y + cos 2z)
+  iwp: (sx, cx, sy, cy, sz, cz) => {
+    const c2x = cx * cx - sx * sx, c2y = cy * cy - sy * sy, c2z = cz * cz - sz * sz;
+    return NORM_IWP * (2 * (cx * cy + cy * cz + cz * cx) - (c2x + c2y + c2z));
+  },
+};
+
+/** Display metadata for the surface selector, in menu order. */
+export const SURFACE_TYPES: { id: SurfaceType; label: string; hint: string }[] = [
+  { id: 'gyroid',   label: 'Gyroid',     hint: 'Smooth, self-supporting; balanced pressure drop and area.' },
+  { id: 'schwarzP', label: 'Schwarz P',  hint: 'Straight orthogonal tubes; lowest pressure drop.' },
+  { id: 'schwarzD', label: 'Schwarz D',  hint: 'Diamond lattice; high surface area, tortuous paths.' },
+  { id: 'neovius',  label: 'Neovius',    hint: 'P-like with extra necks; very high surface area.' },
+  { id: 'lidinoid', label: 'Lidinoid',   hint: 'Fine helical channels; double-frequency surface.' },
+  { id: 'splitP',   label: 'Split P',    hint: 'Branched P variant; double-frequency surface.' },
+  { id: 'iwp',      label: 'I-WP',       hint: 'Asymmetric channel pair; unequal A/B volumes.' },
+];
@@ -0,0 +1,281 @@
+import { MeshData, ProgressCallback } from '../types';
+
+/**
+ * Local wall thickness of the finished mesh — after shell clipping, port
+ * cutting and smoothing, unlike the closed-form estimate in ControlPanel.
+ *
+ * Each vertex casts a ray inward (along its negated normal) and the distance
+ * to the first surface it meets is the wall thickness there.  Triangles are
+ * binned in a uniform grid and rays walk it cell by cell (Amanatides & Woo),
+ * so the cost stays near linear in the vertex count.  The mesh must be
+ * closed and wound outward, as generated meshes are.
+ *
+ * A single ray reads a wall that it crosses obliquely as too thick and
+ * cannot see into sharp corners, so the result is an upper bound near
+ * edges; across smooth TPMS walls it is close to the true thickness.
+ */
+
+export interface ThinWallReport {
+  minThickness: number;   // mm, over all vertices with a hit
+  thinFaces: number;      // faces whose mean vertex thickness is below the minimum
+  thinArea: number;       // mm² of those faces
+  thinRegions: number;    // connected patches of thin faces
+}
+
+// Grid cells per face (upper bound on the cell count)
+const CELLS_PER_FACE = 2;
+const MAX_CELLS = 1 << 24;
+
+// Neighbour rings searched for vertices whose ray escaped
+const ESCAPE_ROUNDS = 3;
+
+// Triangles overlapping each grid cell, in CSR form
+interface TriangleGrid {
+  origin: [number, number, number];
+  cell: number;
+  dims: [number, number, number];
+  start: Uint32Array;       // cells + 1 offsets into `faces`
+  faces: Uint32Array;
+}
+
+function buildGrid(pos: Float32Array, idx: Uint32Array): TriangleGrid {
+  const numFaces = idx.length / 3;
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < pos.length; i += 3) {
+    for (let a = 0; a < 3; a++) {
+      if (pos[i + a] < min[a]) min[a] = pos[i + a];
+      if (pos[i + a] > max[a]) max[a] = pos[i + a];
+    }
+  }
+  const ext = [0, 1, 2].map(a => Math.max(max[a] - min[a], 1e-6));
+
+  // Cell edge from the mean edge length, coarsened until the grid fits
+  let edgeSum = 0;
+  for (let f = 0; f < idx.length; f += 3) {
+    const a = idx[f] * 3, b = idx[f + 1] * 3;
+    edgeSum += Math.hypot(pos[b] - pos[a], pos[b + 1] - pos[a + 1], pos[b + 2] - pos[a + 2]);
+  }
+  let cell = Math.max(2 * edgeSum / Math.max(numFaces, 1), 1e-3);
+  const limit = Math.min(MAX_CELLS, Math.max(1, numFaces * CELLS_PER_FACE));
+  const cellsFor = (c: number) => ext.reduce((n, e) => n * Math.max(1, Math.ceil(e / c)), 1);
+  while (cellsFor(cell) > limit) cell *= 1.25;
+  const dims = ext.map(e => Math.max(1, Math.ceil(e / cell))) as [number, number, number];
+
+  const cellOf = (v: number, a: number) =>
+    Math.min(dims[a] - 1, Math.max(0, Math.floor((v - min[a]) / cell)));
+
+  // Two passes over each face's bounding-box cells: count, then fill
+  const start = new Uint32Array(dims[0] * dims[1] * dims[2] + 1);
+  const lo = [0, 0, 0], hi = [0, 0, 0];
+  const faceBox = (f: number) => {
+    for (let a = 0; a < 3; a++) {
+      const p = pos[idx[f] * 3 + a], q = pos[idx[f + 1] * 3 + a], r = pos[idx[f + 2] * 3 + a];
+      lo[a] = cellOf(Math.min(p, q, r), a);
+      hi[a] = cellOf(Math.max(p, q, r), a);
+    }
+  };
+  for (let f = 0; f < idx.length; f += 3) {
+    faceBox(f);
+    for (let z = lo[2]; z <= hi[2]; z++)
+      for (let y = lo[1]; y <= hi[1]; y++)
+        for (let x = lo[0]; x <= hi[0]; x++) start[(z * dims[1] + y) * dims[0] + x + 1]++;
+  }
+  for (let c = 1; c < start.length; c++) start[c] += start[c - 1];
+  const faces = new Uint32Array(start[start.length - 1]);
+  const fill = start.slice(0, -1);
+  for (let f = 0; f < idx.length; f += 3) {
+    faceBox(f);
+    for (let z = lo[2]; z <= hi[2]; z++)
+      for (let y = lo[1]; y <= hi[1]; y++)
+        for (let x = lo[0]; x <= hi[0]; x++) faces[fill[(z * dims[1] + y) * dims[0] + x]++] = f / 3;
+  }
+
+  return { origin: [min[0], min[1], min[2]], cell, dims, start, faces };
+}
+
+// Barycentric slack, so rays through a shared edge or vertex — common on the
+// flat, grid-aligned shell faces — cannot slip between the triangles
+const EDGE_EPS = 1e-5;
+
+// Ray parameter of the hit on triangle f (Möller–Trumbore), or Infinity
+function intersect(
+  pos: Float32Array, idx: Uint32Array, f: number,
+  ox: number, oy: number, oz: number, dx: number, dy: number, dz: number,
+): number {
+  const a = idx[f * 3] * 3, b = idx[f * 3 + 1] * 3, c = idx[f * 3 + 2] * 3;
+  const e1x = pos[b] - pos[a], e1y = pos[b + 1] - pos[a + 1], e1z = pos[b + 2] - pos[a + 2];
+  const e2x = pos[c] - pos[a], e2y = pos[c + 1] - pos[a + 1], e2z = pos[c + 2] - pos[a + 2];
+  const px = dy * e2z - dz * e2y, py = dz * e2x - dx * e2z, pz = dx * e2y - dy * e2x;
+  const det = e1x * px + e1y * py + e1z * pz;
+  if (Math.abs(det) < 1e-12) return Infinity;
+  const inv = 1 / det;
+  const tx = ox - pos[a], ty = oy - pos[a + 1], tz = oz - pos[a + 2];
+  const u = (tx * px + ty * py + tz * pz) * inv;
+  if (u < -EDGE_EPS || u > 1 + EDGE_EPS) return Infinity;
+  const qx = ty * e1z - tz * e1y, qy = tz * e1x - tx * e1z, qz = tx * e1y - ty * e1x;
+  const v = (dx * qx + dy * qy + dz * qz) * inv;
+  if (v < -EDGE_EPS || u + v > 1 + EDGE_EPS) return Infinity;
+  return (e2x * qx + e2y * qy + e2z * qz) * inv;
+}
+
+/**
+ * Wall thickness at every vertex (mm).  Vertices left without a value —
+ * only possible on open or inconsistently wound meshes — get Infinity.
+ */
+export function measureWallThickness(mesh: MeshData, onProgress?: ProgressCallback): Float32Array {
+  const { vertices: pos, normals, indices: idx } = mesh;
+  const numVerts = pos.length / 3;
+  const thickness = new Float32Array(numVerts).fill(Infinity);
+  if (idx.length === 0) return thickness;
+
+  const grid = buildGrid(pos, idx);
+  const { origin, cell, dims, start, faces } = grid;
+  // Hits closer than this are the ray leaving its own vertex's fan
+  const eps = cell * 1e-4;
+
+  // Faces around each vertex are skipped, whatever the hit distance
+  const fanStart = new Uint32Array(numVerts + 1);
+  for (let i = 0; i < idx.length; i++) fanStart[idx[i] + 1]++;
+  for (let v = 1; v <= numVerts; v++) fanStart[v] += fanStart[v - 1];
+  const fan = new Uint32Array(idx.length);
+  const fanFill = fanStart.slice(0, -1);
+  for (let i = 0; i < idx.length; i++) fan[fanFill[idx[i]]++] = (i / 3) | 0;
+
+  const report = Math.max(1, Math.floor(numVerts / 50));
+  for (let v = 0; v < numVerts; v++) {
+    if (onProgress && v % report === 0) onProgress((v / numVerts) * 100);
+    if (fanStart[v] === fanStart[v + 1]) continue;      // unreferenced vertex
+
+    const ox = pos[v * 3], oy = pos[v * 3 + 1], oz = pos[v * 3 + 2];
+    const dx = -normals[v * 3], dy = -normals[v * 3 + 1], dz = -normals[v * 3 + 2];
+    if (dx === 0 && dy === 0 && dz === 0) continue;
+    const o = [ox, oy, oz], d = [dx, dy, dz];
+
+    // Starting cell and per-axis stepping
+    const c = [0, 0, 0], step = [0, 0, 0], tMax = [0, 0, 0], tDelta = [0, 0, 0];
+    for (let a = 0; a < 3; a++) {
+      c[a] = Math.min(dims[a] - 1, Math.max(0, Math.floor((o[a] - origin[a]) / cell)));
+      if (d[a] > 0) {
+        step[a] = 1;
+        tMax[a] = (origin[a] + (c[a] + 1) * cell - o[a]) / d[a];
+        tDelta[a] = cell / d[a];
+      } else if (d[a] < 0) {
+        step[a] = -1;
+        tMax[a] = (origin[a] + c[a] * cell - o[a]) / d[a];
+        tDelta[a] = -cell / d[a];
+      } else {
+        tMax[a] = tDelta[a] = Infinity;
+      }
+    }
+
+    let best = Infinity;
+    for (;;) {
+      const ci = (c[2] * dims[1] + c[1]) * dims[0] + c[0];
+      for (let k = start[ci]; k < start[ci + 1]; k++) {
+        const f = faces[k];
+        let own = false;
+        for (let j = fanStart[v]; j < fanStart[v + 1]; j++) if (fan[j] === f) { own = true; break; }
+        if (own) continue;
+        const t = intersect(pos, idx, f, ox, oy, oz, dx, dy, dz);
+        if (t > eps && t < best) best = t;
+      }
+
+      // Nearest hit found once it lies within the cells walked so far
+      const a = tMax[0] < tMax[1] ? (tMax[0] < tMax[2] ? 0 : 2) : (tMax[1] < tMax[2] ? 1 : 2);
+      if (best <= tMax[a]) break;
+      c[a] += step[a];
+      if (c[a] < 0 || c[a] >= dims[a]) break;
+      tMax[a] += tDelta[a];
+    }
+    thickness[v] = best;
+  }
+
+  // On razor-thin walls a smoothed normal can point into a channel and the
+  // ray leaves through a port; such vertices take their thinnest neighbour
+  for (let round = 0; round < ESCAPE_ROUNDS; round++) {
+    const filled = thickness.slice();
+    let open = 0;
+    for (let f = 0; f < idx.length; f += 3) {
+      for (let e = 0; e < 3; e++) {
+        const i = idx[f + e], j = idx[f + (e + 1) % 3];
+        if (thickness[i] === Infinity && thickness[j] < filled[i]) filled[i] = thickness[j];
+        if (thickness[j] === Infinity && thickness[i] < filled[j]) filled[j] = thickness[i];
+      }
+    }
+    for (let v = 0; v < numVerts; v++) if (filled[v] === Infinity && fanStart[v] < fanStart[v + 1]) open++;
+    thickness.set(filled);
+    if (open === 0) break;
+  }
+  onProgress?.(100);
+  return thickness;
+}
+
+/**
+ * Faces thinner than `minWall` (mm): their count, area and how many separate
+ * patches they form.  Cheap enough to rerun on every slider change.
+ */
+export function findThinWalls(mesh: MeshData, thickness: Float32Array, minWall: number): ThinWallReport {
+  const { vertices: pos, indices: idx } = mesh;
+
+  // Union-find over the vertices of thin faces
+  const parent = new Int32Array(pos.length / 3).fill(-1);
+  const find = (v: number): number => {
+    while (parent[v] !== v) v = parent[v] = parent[parent[v]];
+    return v;
+  };
+
+  let minThickness = Infinity, thinFaces = 0, thinArea = 0;
+  for (let v = 0; v < thickness.length; v++) if (thickness[v] < minThickness) minThickness = thickness[v];
+
+  for (let f = 0; f < idx.length; f += 3) {
+    const i0 = idx[f], i1 = idx[f + 1], i2 = idx[f + 2];
+    if ((thickness[i0] + thickness[i1] + thickness[i2]) / 3 >= minWall) continue;
+    thinFaces++;
+
+    const ax = pos[i0 * 3], ay = pos[i0 * 3 + 1], az = pos[i0 * 3 + 2];
+    const e1x = pos[i1 * 3] - ax, e1y = pos[i1 * 3 + 1] - ay, e1z = pos[i1 * 3 + 2] - az;
+    const e2x = pos[i2 * 3] - ax, e2y = pos[i2 * 3 + 1] - ay, e2z = pos[i2 * 3 + 2] - az;
+    thinArea += 0.5 * Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x);
+
+    for (const i of [i0, i1, i2]) if (parent[i] < 0) parent[i] = i;
+    const r0 = find(i0);
+    parent[find(i1)] = r0;
+    parent[find(i2)] = r0;
+  }
+
+  let thinRegions = 0;
+  for (let v = 0; v < parent.length; v++) if (parent[v] === v) thinRegions++;
+
+  return { minThickness, thinFaces, thinArea, thinRegions };
+}
+
+// Colour ramp over thickness / minWall: red below 1, then yellow → green → blue at 3
+const RAMP: [number, [number, number, number]][] = [
+  [1, [0.98, 0.8, 0.08]],
+  [1.75, [0.29, 0.87, 0.5]],
+  [3, [0.23, 0.51, 0.96]],
+];
+const THIN: [number, number, number] = [0.94, 0.27, 0.27];
+
+/** CSS gradient matching `thicknessColors`, for legends. */
+export const THICKNESS_GRADIENT =
+  `linear-gradient(to right, rgb(240,68,68) 0%, rgb(240,68,68) 33%, ${RAMP.map(([s, [r, g, b]]) =>
+    `rgb(${Math.round(r * 255)},${Math.round(g * 255)},${Math.round(b * 255)}) ${((s / 3) * 100).toFixed(0)}%`).join(', ')})`;
+
+/** Per-vertex RGB (0–1) colouring `thickness` relative to `minWall`. */
+export function thicknessColors(thickness: Float32Array, minWall: number): Float32Array {
+  const colors = new Float32Array(thickness.length * 3);
+  for (let v = 0; v < thickness.length; v++) {
+    const s = thickness[v] / minWall;
+    if (s < 1) {
+      colors.set(THIN, v * 3);
+      continue;
+    }
+    let k = 1;
+    while (k < RAMP.length - 1 && s > RAMP[k][0]) k++;
+    const [s0, c0] = RAMP[k - 1], [s1, c1] = RAMP[k];
+    const t = Math.min(1, (s - s0) / (s1 - s0));
+    for (let a = 0; a < 3; a++) colors[v * 3 + a] = c0[a] + (c1[a] - c0[a]) * t;
+  }
+  return colors;
+}
@@ -0,0 +1,94 @@
+/**
+ * Minimal ZIP writer (STORE method, no compression).
+ *
+ * Enough for OPC containers such as 3MF, which only require a valid ZIP
+ * layout.  Entries above 4 GB (ZIP64) are not supported.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// CRC-32 (IEEE 802.3) lookup table
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(data: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+export function buildZip(entries: ZipEntry[]): Uint8Array {
+  const enc = new TextEncoder();
+  const names = entries.map(e => enc.encode(e.name));
+  const crcs = entries.map(e => crc32(e.data));
+
+  let localSize = 0;
+  let centralSize = 0;
+  for (let i = 0; i < entries.length; i++) {
+    localSize += 30 + names[i].length + entries[i].data.length;
+    centralSize += 46 + names[i].length;
+  }
+
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  const offsets: number[] = [];
+  let p = 0;
+
+  // Local file headers + data
+  for (let i = 0; i < entries.length; i++) {
+    const { data } = entries[i];
+    offsets.push(p);
+    view.setUint32(p, 0x04034b50, true);       // signature
+    view.setUint16(p + 4, 20, true);           // version needed
+    view.setUint16(p + 6, 0x0800, true);       // flags: UTF-8 names
+    view.setUint16(p + 8, 0, true);            // method: store
+    view.setUint32(p + 10, 0, true);           // mod time / date
+    view.setUint32(p + 14, crcs[i], true);
+    view.setUint32(p + 18, data.length, true); // compressed size
+    view.setUint32(p + 22, data.length, true); // uncompressed size
+    view.setUint16(p + 26, names[i].length, true);
+    view.setUint16(p + 28, 0, true);           // extra length
+    out.set(names[i], p + 30);
+    out.set(data, p + 30 + names[i].length);
+    p += 30 + names[i].length + data.length;
+  }
+
+  // Central directory
+  const centralStart = p;
+  for (let i = 0; i < entries.length; i++) {
+    const { data } = entries[i];
+    view.setUint32(p, 0x02014b50, true);       // signature
+    view.setUint16(p + 4, 20, true);           // version made by
+    view.setUint16(p + 6, 20, true);           // version needed
+    view.setUint16(p + 8, 0x0800, true);
+    view.setUint16(p + 10, 0, true);
+    view.setUint32(p + 12, 0, true);
+    view.setUint32(p + 16, crcs[i], true);
+    view.setUint32(p + 20, data.length, true);
+    view.setUint32(p + 24, data.length, true);
+    view.setUint16(p + 28, names[i].length, true);
+    // extra, comment, disk start, internal/external attrs stay zero
+    view.setUint32(p + 42, offsets[i], true);
+    out.set(names[i], p + 46);
+    p += 46 + names[i].length;
+  }
+
+  // End of central directory
+  view.setUint32(p, 0x06054b50, true);
+  view.setUint16(p + 8, entries.length, true);
+  view.setUint16(p + 10, entries.length, true);
+  view.setUint32(p + 12, p - centralStart, true);
+  view.setUint32(p + 16, centralStart, true);
+
+  return out;
+}